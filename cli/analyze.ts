@@ -0,0 +1,129 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { scorePairs } from '../src/lib/engine';
+import type { ScoredScenario } from '../src/lib/engine';
+import { PROVIDERS, defaultSettingsFor } from '../src/lib/providers';
+import type { ProviderId } from '../src/lib/providers';
+import { BUILT_IN_FRAMEWORKS, parseFrameworkFile } from '../src/lib/frameworks';
+import { escapeCsv, parsePairs } from '../src/lib/scenarioFiles';
+import type { ScenarioPair } from '../src/lib/scenarioFiles';
+
+// --- Moral Vector Analyzer CLI ---
+// Scores action / intent pairs with the same engine as the web UI and prints JSON or CSV.
+
+const USAGE = `Usage: node dist-cli/analyze.js [options] [action intent]...
+
+Pairs are read from positional arguments (action, intent, action, intent, ...),
+from --input <file> (CSV with an action,intent header, or a JSON array of {action, intent}),
+or from stdin (same formats) when neither is given.
+
+Options:
+  -m, --mode <id>             Framework id (default: seismograph)
+      --framework-file <f>    Use a framework exported from the UI (JSON)
+  -p, --provider <id>         ${Object.keys(PROVIDERS).join(' | ')} (default: mock)
+      --model <name>          Model name (default: the provider's default)
+      --endpoint <url>        Endpoint (OpenAI-compatible / Ollama)
+      --api-key <key>         API key (default: $MORAL_ANALYZER_API_KEY)
+      --timeout <seconds>     Per-request time limit (default: 60)
+  -i, --input <file>          Read pairs from a file
+  -f, --format <json|csv>     Output format (default: json)
+  -o, --output <file>         Write to a file instead of stdout
+  -h, --help                  Show this help`;
+
+const CSV_COLUMNS = ['action', 'intent', 'mode', 'framework_version', 'x', 'y', 'x_min', 'x_max', 'y_min', 'y_max', 'z', 'quadrant', 'quadrant_label', 'cached_y', 'x_anchor', 'y_anchor', 'warnings'] as const;
+
+const toCsv = (scores: ScoredScenario[]) => [
+  CSV_COLUMNS.join(','),
+  ...scores.map(s => [
+    s.action, s.intent, s.mode, s.frameworkVersion, s.x, s.y, s.xMin, s.xMax, s.yMin, s.yMax, s.z,
+    s.quadrant, s.quadrantLabel, String(s.cachedY), s.rationale?.x?.anchor, s.rationale?.y?.anchor,
+    s.warnings?.map(w => w.kind).join('; ')
+  ].map(escapeCsv).join(','))
+].join('\n');
+
+const fail = (message: string): never => {
+  process.stderr.write(`${message}\n`);
+  process.exit(1);
+};
+
+// CSV by default; a leading "[" means a JSON array of pairs
+const readPairs = (text: string): ScenarioPair[] => {
+  if (!text.trimStart().startsWith('[')) return parsePairs(text);
+  const parsed: unknown = JSON.parse(text);
+  if (!Array.isArray(parsed)) fail('JSON input must be an array of {action, intent} objects.');
+  return (parsed as Record<string, unknown>[])
+    .filter(p => typeof p?.action === 'string' && typeof p?.intent === 'string' && p.action.trim() && p.intent.trim())
+    .map(p => ({ action: (p.action as string).trim(), intent: (p.intent as string).trim() }));
+};
+
+const readStdin = async () => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      mode: { type: 'string', short: 'm' },
+      'framework-file': { type: 'string' },
+      provider: { type: 'string', short: 'p', default: 'mock' },
+      model: { type: 'string' },
+      endpoint: { type: 'string' },
+      'api-key': { type: 'string' },
+      timeout: { type: 'string' },
+      input: { type: 'string', short: 'i' },
+      format: { type: 'string', short: 'f', default: 'json' },
+      output: { type: 'string', short: 'o' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return;
+  }
+  if (!(values.provider! in PROVIDERS)) fail(`Unknown provider "${values.provider}". Choose one of: ${Object.keys(PROVIDERS).join(', ')}.`);
+  if (values.format !== 'json' && values.format !== 'csv') fail(`Unknown format "${values.format}". Use json or csv.`);
+  const timeoutSeconds = values.timeout === undefined ? undefined : Number(values.timeout);
+  if (timeoutSeconds !== undefined && !(timeoutSeconds > 0)) fail(`--timeout must be a positive number of seconds, got "${values.timeout}".`);
+  if (positionals.length % 2 !== 0) fail('Positional arguments must come in action / intent pairs.');
+
+  const frameworks = values['framework-file']
+    ? [...BUILT_IN_FRAMEWORKS, parseFrameworkFile(readFileSync(values['framework-file'], 'utf8'))]
+    : BUILT_IN_FRAMEWORKS;
+  const mode = values.mode ?? (values['framework-file'] ? frameworks[frameworks.length - 1].id : 'seismograph');
+  if (!frameworks.some(f => f.id === mode)) fail(`Unknown framework "${mode}". Known: ${frameworks.map(f => f.id).join(', ')}.`);
+
+  const defaults = defaultSettingsFor(values.provider as ProviderId);
+  const settings = {
+    ...defaults,
+    model: values.model ?? defaults.model,
+    endpoint: values.endpoint ?? defaults.endpoint,
+    apiKey: values['api-key'] ?? process.env.MORAL_ANALYZER_API_KEY ?? '',
+    timeoutSeconds: timeoutSeconds ?? defaults.timeoutSeconds
+  };
+
+  // Nothing piped in: show the usage instead of waiting on the terminal
+  if (!positionals.length && !values.input && process.stdin.isTTY) fail(USAGE);
+
+  const pairs: ScenarioPair[] = positionals.length
+    ? Array.from({ length: positionals.length / 2 }, (_, i) => ({ action: positionals[2 * i], intent: positionals[2 * i + 1] }))
+    : readPairs(values.input ? readFileSync(values.input, 'utf8') : await readStdin());
+  if (pairs.length === 0) fail(`No action / intent pairs given.\n\n${USAGE}`);
+
+  const { scores } = await scorePairs(pairs, { settings, mode, frameworks }, (_score, index) => {
+    process.stderr.write(`\rScored ${index + 1}/${pairs.length}`);
+  });
+  process.stderr.write('\n');
+
+  const output = values.format === 'csv' ? toCsv(scores) : JSON.stringify(scores, null, 2);
+  if (values.output) {
+    writeFileSync(values.output, `${output}\n`);
+  } else {
+    process.stdout.write(`${output}\n`);
+  }
+};
+
+main().catch(err => fail(err instanceof Error ? err.message : String(err)));
@@ -0,0 +1,217 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { existsSync, readFileSync } from 'node:fs';
+import { writeFile } from 'node:fs/promises';
+import type { AnalysisResult, YCache, YCacheEntry } from '../src/lib/types';
+import { applyYCache, requestAnalysis } from '../src/lib/engine';
+import { PROVIDERS, defaultSettingsFor } from '../src/lib/providers';
+import type { ProviderId } from '../src/lib/providers';
+import { BUILT_IN_FRAMEWORKS, isBuiltIn, parseFramework } from '../src/lib/frameworks';
+import type { MoralFramework } from '../src/lib/frameworks';
+import { promptFingerprint } from '../src/lib/benchmark';
+import { AnalysisError } from '../src/lib/errors';
+import type { AnalysisErrorCode } from '../src/lib/errors';
+import { createRateLimiter } from './rateLimit';
+
+// --- Team Proxy Server ---
+// Holds the provider key, scores scenarios for the browser (POST /api/analyze) and keeps one
+// Y-cache for the whole team, so every teammate gets the same action weights.
+
+const env = process.env;
+const PORT = Number(env.PORT) || 8787;
+const RATE_LIMIT_PER_MINUTE = Number(env.RATE_LIMIT_PER_MINUTE) || 20;
+const CACHE_FILE = env.CACHE_FILE;                     // Optional: keep the shared Y-cache across restarts
+const CORS_ORIGIN = env.CORS_ORIGIN;                   // Only needed when the UI is served from another origin
+const TRUST_PROXY = env.TRUST_PROXY === '1';           // Behind a reverse proxy: rate-limit by X-Forwarded-For
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_TEXT_LENGTH = 1000;
+const MAX_TEMPLATE_LENGTH = 8000;                     // Built-in templates are about 2,000 characters
+const MAX_CUSTOM_CACHE_ENTRIES = 500;
+
+const providerId = (env.ANALYZER_PROVIDER || 'gemini') as ProviderId;
+if (!(providerId in PROVIDERS) || providerId === 'proxy') {
+  throw new Error(`ANALYZER_PROVIDER must be one of: ${Object.keys(PROVIDERS).filter(id => id !== 'proxy').join(', ')}`);
+}
+const defaults = defaultSettingsFor(providerId);
+const settings = {
+  ...defaults,
+  model: env.ANALYZER_MODEL || defaults.model,
+  endpoint: env.ANALYZER_ENDPOINT || defaults.endpoint,
+  apiKey: env.ANALYZER_API_KEY || env.GEMINI_API_KEY || '',
+  timeoutSeconds: Number(env.ANALYZER_TIMEOUT_SECONDS) || defaults.timeoutSeconds
+};
+
+// --- Shared Y-Cache ---
+let cache: YCache = CACHE_FILE && existsSync(CACHE_FILE) ? JSON.parse(readFileSync(CACHE_FILE, 'utf8')) : {};
+
+const isCustomKey = (key: string) => key.startsWith('custom:');
+
+// Writes are chained so two requests never interleave their output in the file
+let writing = Promise.resolve();
+const persistCache = (file: string) => {
+  const builtIn = Object.fromEntries(Object.entries(cache).filter(([key]) => !isCustomKey(key)));
+  writing = writing
+    .then(() => writeFile(file, JSON.stringify(builtIn)))
+    .catch(err => console.error('Could not write CACHE_FILE:', err));
+};
+
+// Any client can send a new rubric, so custom-framework entries stay in memory only and the oldest
+// are dropped past the cap; only built-in entries reach CACHE_FILE.
+const storeEntry = (key: string, entry: YCacheEntry) => {
+  cache = { ...cache, [key]: entry };
+  if (!isCustomKey(key)) {
+    if (CACHE_FILE) persistCache(CACHE_FILE);
+    return;
+  }
+  const custom = Object.keys(cache).filter(isCustomKey);
+  for (const old of custom.slice(0, Math.max(0, custom.length - MAX_CUSTOM_CACHE_ENTRIES))) delete cache[old];
+};
+
+// Custom frameworks are cached by the prompt the model actually sees (template with its rubric filled in).
+// Id and version come from the client, so keying by them would let anyone seed weights for a colleague's rubric.
+const cacheMode = (framework: MoralFramework) => isBuiltIn(framework.id)
+  ? framework.id
+  : `custom:${promptFingerprint(framework)}`;
+
+// --- HTTP Helpers ---
+class RequestError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const STATUS_BY_CODE: Record<AnalysisErrorCode, number> = {
+  'missing-key': 500,
+  'network': 502,
+  'http-client': 502,
+  'http-server': 502,
+  'blocked': 422,
+  'empty': 502,
+  'malformed-json': 502,
+  'invalid-result': 502,
+  'unsupported': 400,
+  'timeout': 504,
+  'aborted': 499,
+  'invalid-input': 400,
+};
+
+const send = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    ...(CORS_ORIGIN && { 'Access-Control-Allow-Origin': CORS_ORIGIN, 'Access-Control-Allow-Headers': 'Content-Type' }),
+    ...headers
+  });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new RequestError(413, 'Request body too large.'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(new RequestError(400, 'Request body is not valid JSON.'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const clientOf = (req: IncomingMessage) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+const readText = (body: Record<string, unknown>, field: string) => {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) throw new RequestError(400, `'${field}' must be a non-empty string.`);
+  if (value.length > MAX_TEXT_LENGTH) throw new RequestError(400, `'${field}' is longer than ${MAX_TEXT_LENGTH} characters.`);
+  return value.trim();
+};
+
+// --- Analyze ---
+// Same contract as the browser's direct call: { action, intent, mode } in, AnalysisResult out,
+// plus `servedBy` so run history records the model the server ran rather than the client's placeholder.
+// `useCache: false` (benchmarks, re-analysis, model comparison) skips the shared cache entirely;
+// temperature samples read it but never seed it, since one sample does not settle an action's weight.
+const servedBy = { providerId: settings.providerId, model: settings.model };
+
+const analyze = async (body: Record<string, unknown>, signal: AbortSignal): Promise<AnalysisResult> => {
+  const action = readText(body, 'action');
+  const intent = readText(body, 'intent');
+  const mode = typeof body.mode === 'string' ? body.mode : 'seismograph';
+  const temperature = typeof body.temperature === 'number' && body.temperature >= 0 && body.temperature <= 2 ? body.temperature : undefined;
+  const useCache = body.useCache !== false;
+
+  let framework = BUILT_IN_FRAMEWORKS.find(f => f.id === mode);
+  if (!framework) {
+    if (!body.framework) throw new RequestError(400, `Unknown framework '${mode}'. Send custom frameworks with the request.`);
+    try {
+      framework = parseFramework(body.framework);
+      if (framework.promptTemplate.length > MAX_TEMPLATE_LENGTH) throw new Error(`Prompt template is longer than ${MAX_TEMPLATE_LENGTH} characters`);
+    } catch (err) {
+      throw new RequestError(400, `Invalid framework: ${err instanceof Error ? err.message : 'unreadable'}`);
+    }
+  }
+
+  const keyed = { ...framework, id: cacheMode(framework) };
+  const apiResult = await requestAnalysis({ action, intent, framework: keyed, temperature, signal }, useCache ? cache : {}, settings);
+  if (!useCache) return { ...apiResult, servedBy };
+  const { result, key, newEntry } = applyYCache(cache, keyed.id, action, apiResult);
+  if (newEntry && temperature === undefined) storeEntry(key, newEntry);
+  return { ...result, servedBy };
+};
+
+// --- Server ---
+const limit = createRateLimiter(RATE_LIMIT_PER_MINUTE);
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+
+  if (req.method === 'OPTIONS') return send(res, 204, null);
+  if (req.method === 'GET' && url.pathname === '/api/health') {
+    return send(res, 200, { ok: true, provider: settings.providerId, model: settings.model, cachedActions: Object.keys(cache).length });
+  }
+  if (url.pathname !== '/api/analyze') return send(res, 404, { error: 'Not found.' });
+  if (req.method !== 'POST') return send(res, 405, { error: 'Use POST.' }, { Allow: 'POST' });
+
+  const decision = limit(clientOf(req));
+  if (!decision.allowed) {
+    return send(res, 429, { error: `Rate limit reached. Try again in ${decision.retryAfterSeconds}s.` }, { 'Retry-After': String(decision.retryAfterSeconds) });
+  }
+
+  // A client that hangs up (Cancel, Stop, a closed tab) should not keep the model call running
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    const body = await readBody(req);
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) throw new RequestError(400, 'Request body must be a JSON object.');
+    send(res, 200, await analyze(body as Record<string, unknown>, controller.signal));
+  } catch (err) {
+    if (controller.signal.aborted) return;
+    if (err instanceof RequestError) return send(res, err.status, { error: err.message });
+    if (err instanceof AnalysisError) return send(res, STATUS_BY_CODE[err.code], { error: err.message, code: err.code });
+    console.error(err);
+    send(res, 500, { error: 'Analysis failed on the server.' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Moral analyzer proxy on :${PORT} · ${settings.providerId} · ${settings.model}${settings.apiKey ? '' : ' · no API key set'}`);
+});
@@ -0,0 +1,30 @@
+// --- Per-Client Rate Limiting ---
+// Fixed one-minute windows keyed by client address; enough to stop one teammate's batch from
+// exhausting the shared key.
+
+export type RateDecision = { allowed: true } | { allowed: false; retryAfterSeconds: number };
+
+const WINDOW_MS = 60_000;
+
+export const createRateLimiter = (perMinute: number, now = () => Date.now()) => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return (client: string): RateDecision => {
+    const time = now();
+    // Forget idle clients so the map does not grow without bound
+    if (windows.size > 1000) {
+      for (const [key, window] of windows) if (time - window.start >= WINDOW_MS) windows.delete(key);
+    }
+
+    const window = windows.get(client);
+    if (!window || time - window.start >= WINDOW_MS) {
+      windows.set(client, { start: time, count: 1 });
+      return { allowed: true };
+    }
+    if (window.count < perMinute) {
+      window.count++;
+      return { allowed: true };
+    }
+    return { allowed: false, retryAfterSeconds: Math.ceil((window.start + WINDOW_MS - time) / 1000) };
+  };
+};
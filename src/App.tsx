@@ -1,268 +1,490 @@
-import React, { useState } from 'react';
-import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, ReferenceArea, Cell, Customized } from 'recharts';
-import { Target, Brain, AlertCircle, RefreshCw, Trash2, Info, Zap, Lock, Activity, Scale, GitCommitVertical, Eye, EyeOff, XCircle, HelpCircle } from 'lucide-react';
-
-// --- Types ---
-type MoralPoint = {
-  id: string;
-  action: string;
-  intent: string;
-  x: number;
-  y: number;
-  // Noise / Confidence Intervals
-  yMin?: number;
-  yMax?: number;
-  xMin?: number;
-  xMax?: number;
-  label: string;
-  mode: 'philosopher' | 'seismograph';
-  showNoise: boolean; // Per-scenario toggle
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { MouseEvent as ReactMouseEvent, SetStateAction } from 'react';
+import { ScatterChart, Scatter, XAxis, YAxis, ZAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, ReferenceArea } from 'recharts';
+import { Brain, AlertCircle, RefreshCw, Trash2, Activity, Eye, EyeOff, XCircle, HelpCircle, Settings2, Upload, Download, ImageDown, Layers, GitCompareArrows, PencilRuler, MoveHorizontal, Database, Scale, Gauge, Link2, LogOut, FolderInput, TrendingUp, CircleDot, Box, Square, ShieldAlert, BookOpen, Users, Crosshair, Grid3x3 } from 'lucide-react';
+import type { AnalysisMode, AnalysisResult, MoralPoint, YCache, YCacheEntry } from './lib/types';
+import { getProvider, loadProviderSettings, saveProviderSettings } from './lib/providers';
+import type { ProviderSettings } from './lib/providers';
+import { createWorkspace, duplicateWorkspace, getActiveWorkspace, loadWorkspaceStore, saveWorkspaceStore, updateWorkspace } from './lib/workspaces';
+import type { WorkspaceStore } from './lib/workspaces';
+import { cacheKeyFor, dropModeEntries, loadNormalizationSettings, pinnedOnly, saveNormalizationSettings } from './lib/cache';
+import type { NormalizationSettings } from './lib/cache';
+import { newId } from './lib/ids';
+import { applyYCache, requestAnalysis } from './lib/engine';
+import { describeAnalysisError, isCancelled } from './lib/errors';
+import type { RetryInfo } from './lib/retry';
+import { DEFAULT_ENSEMBLE, ensembleToResult, runEnsemble } from './lib/ensemble';
+import type { EnsembleConfig } from './lib/ensemble';
+import { downloadFile, parseScenarioFile, pointsToCSV, pointsToJSON } from './lib/scenarioFiles';
+import { loadLastReports, promptFingerprint, runBenchmark, saveLastReports } from './lib/benchmark';
+import type { BenchmarkReport, GoldenSet, ScenarioOutcome } from './lib/benchmark';
+import { decodeShareFragment, encodeShareLink, isShareFragment } from './lib/share';
+import type { SharedChart } from './lib/share';
+import { displayedCoords, pointerToScore } from './lib/review';
+import { EMPTY_FILTER, allTags, isFilterActive, matchesFilter, nextScenarioLabel } from './lib/filters';
+import type { ScenarioFilter } from './lib/filters';
+import { appendRun, createRun, runsOf } from './lib/runs';
+import { screenScenario } from './lib/guardrails';
+import { suggestIntents, sweepMembers, sweepSegments } from './lib/sweep';
+import { agentColors, extractNarrative, narrativeAgents, narrativeMembers } from './lib/narrative';
+import type { NarrativePair } from './lib/narrative';
+import { loadLineup, markerFor, modelGroupMembers, modelLegend, modelSpread, saveLineup, settingsForTarget, targetLabel } from './lib/lineup';
+import type { ModelLineup } from './lib/lineup';
+import { hasNoise, noiseReach, sampleDensity } from './lib/uncertainty';
+import type { DensityCell, NoiseStyle } from './lib/uncertainty';
+import { buildChartSvg, svgToPng } from './lib/chartExport';
+import type { ChartOverlay, QuadrantCorner } from './lib/chartExport';
+import { BUILT_IN_FRAMEWORKS, QUADRANT_ORDER, anchorColor, loadCustomFrameworks, mergeImportedFramework, nextVersion, parseFrameworkFile, pointColor, resolveFramework, saveCustomFrameworks } from './lib/frameworks';
+import type { MoralFramework, QuadrantKey, RubricAnchor } from './lib/frameworks';
+import ProviderSettingsPanel from './components/ProviderSettingsPanel';
+import WorkspaceSwitcher from './components/WorkspaceSwitcher';
+import BatchPanel from './components/BatchPanel';
+import EnsembleControls from './components/EnsembleControls';
+import CalibrationBars from './components/CalibrationBars';
+import PairGap from './components/PairGap';
+import FrameworkEditor from './components/FrameworkEditor';
+import RationaleDetails from './components/RationaleDetails';
+import SweepPanel from './components/SweepPanel';
+import SweepGroup from './components/SweepGroup';
+import NarrativePanel from './components/NarrativePanel';
+import NarrativeGroup from './components/NarrativeGroup';
+import ModelLineupControls from './components/ModelLineupControls';
+import ModelGroup from './components/ModelGroup';
+import ModelMarker from './components/ModelMarker';
+import CacheInspector from './components/CacheInspector';
+import ReviewDetails from './components/ReviewDetails';
+import AgreementPanel from './components/AgreementPanel';
+import StatsPanel from './components/StatsPanel';
+import ScenarioFilterBar from './components/ScenarioFilterBar';
+import EditableLabel from './components/EditableLabel';
+import TagList from './components/TagList';
+import RunHistory from './components/RunHistory';
+import DriftPanel from './components/DriftPanel';
+import Scatter3D from './components/Scatter3D';
+import MarginalHistograms from './components/MarginalHistograms';
+import UncertaintyLayer from './components/UncertaintyLayer';
+import BenchmarkPanel from './components/BenchmarkPanel';
+
+// --- Mode Selection ---
+type InputMode = AnalysisMode | 'compare'; // 'compare' analyzes one scenario in two frameworks
+type ModeFilter = AnalysisMode | 'all';
+// How consequence magnitude (z) is shown: not at all, as bubble size, or as a third axis
+type MagnitudeView = 'flat' | 'bubble' | '3d';
+type AnalysisControl = { signal?: AbortSignal; onRetry?: (info: RetryInfo) => void }; // Cancel button and attempt display
+
+// --- Scenario List ---
+type ListEntry =
+  | { kind: 'point'; point: MoralPoint }
+  | { kind: 'sweep'; id: string; members: MoralPoint[] }
+  | { kind: 'narrative'; id: string; members: MoralPoint[] }
+  | { kind: 'models'; id: string; members: MoralPoint[] };
+
+// --- Chart Shape Props (injected by Recharts) ---
+type PointShapeProps = { cx?: number; cy?: number; size?: number; payload?: MoralPoint };
+type SampleShapeProps = { cx?: number; cy?: number; payload?: { color: string } };
+type VectorShapeProps = { x1?: number; y1?: number; x2?: number; y2?: number };
+type TrailShapeProps = VectorShapeProps & { color?: string };
+type GhostShapeProps = { cx?: number; cy?: number; payload?: { color: string } };
+type TooltipProps = { active?: boolean; payload?: { payload: MoralPoint }[] };
+
+// --- Magnitude Bubbles ---
+// ZAxis range as symbol areas (px²); points without a magnitude get the smallest size
+const BUBBLE_AREA: [number, number] = [50, 1000];
+const bubbleRadius = (z: number) => Math.sqrt((BUBBLE_AREA[0] + z * (BUBBLE_AREA[1] - BUBBLE_AREA[0])) / Math.PI);
+const BUBBLE_LEGEND = [0.1, 0.5, 1];
+
+// --- Chart Overlay Layout ---
+const QUADRANT_CORNERS: Record<QuadrantKey, QuadrantCorner> = {
+  q1: 'top-right',
+  q2: 'top-left',
+  q3: 'bottom-left',
+  q4: 'bottom-right',
 };
 
-type AnalysisMode = 'philosopher' | 'seismograph';
+const compareSelectClass = "flex-1 bg-slate-950 border border-slate-700 rounded p-1.5 text-xs text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500";
+
+// Pointer travel before a press on a point counts as a drag rather than a click
+const DRAG_THRESHOLD_PX = 4;
+
+const WATERMARK_POSITIONS: Record<QuadrantCorner, string> = {
+  'top-right': 'top-2 left-[75%]', // Q1
+  'top-left': 'top-2 left-[25%]', // Q2
+  'bottom-left': 'bottom-10 left-[25%]', // Q3
+  'bottom-right': 'bottom-10 left-[75%]', // Q4
+};
 
 // --- API Configuration ---
 const apiKey = import.meta.env.VITE_GOOGLE_API_KEY || ""; // The execution environment provides the key at runtime.
+// Proxy mode: analyses go through the team server, which holds the key (see server/)
+const proxyUrl = import.meta.env.VITE_ANALYZER_PROXY_URL || "";
 
 export default function MoralCoordinateAnalyzer() {
   const [actionInput, setActionInput] = useState('');
   const [intentInput, setIntentInput] = useState('');
-  const [mode, setMode] = useState<AnalysisMode>('seismograph'); // Default and Locked to God Mode
+  // Live pre-check of the pair; findings are shown before the call and kept on the plotted point
+  const inputWarnings = actionInput.trim() && intentInput.trim() ? screenScenario(actionInput, intentInput) : [];
+  const [inputMode, setInputMode] = useState<InputMode>('seismograph'); // Default to God Mode
+  const [comparePair, setComparePair] = useState<[AnalysisMode, AnalysisMode]>(['seismograph', 'philosopher']);
+  // Mode for single-mode work (labels, batch runs); comparisons lead with their first framework
+  const mode: AnalysisMode = inputMode === 'compare' ? comparePair[0] : inputMode;
+  const [modeFilter, setModeFilter] = useState<ModeFilter>('all');
+  const [scenarioFilter, setScenarioFilter] = useState<ScenarioFilter>(EMPTY_FILTER);
+
+  // SHARED VIEW: a #share= link replaces the workspace with a read-only chart (nothing is persisted)
+  const [shared, setShared] = useState<SharedChart | null>(null);
+  const [shareError, setShareError] = useState<string | null>(null);
+  const readOnly = shared !== null;
+
+  useEffect(() => {
+    const openShareLink = () => {
+      if (!isShareFragment(window.location.hash)) return;
+      decodeShareFragment(window.location.hash)
+        .then(chart => {
+          setShared(chart);
+          setShareError(null);
+        })
+        .catch(err => setShareError(err instanceof Error ? err.message : 'This share link could not be opened.'));
+    };
+    openShareLink();
+    window.addEventListener('hashchange', openShareLink);
+    return () => window.removeEventListener('hashchange', openShareLink);
+  }, []);
+
+  // FRAMEWORKS: built-ins plus user-defined ones (persisted separately from workspaces)
+  const [customFrameworks, setCustomFrameworks] = useState<MoralFramework[]>(() => loadCustomFrameworks());
+  const [showFrameworks, setShowFrameworks] = useState(false);
+  const frameworks = [...BUILT_IN_FRAMEWORKS, ...customFrameworks];
+  // Frameworks that arrived with a share link only label its points; they are not saved
+  const frameworkFor = (id: AnalysisMode) => resolveFramework([...frameworks, ...(shared?.frameworks ?? [])], id);
+  const framework = frameworkFor(mode);
+
+  useEffect(() => {
+    saveCustomFrameworks(customFrameworks);
+  }, [customFrameworks]);
+
+  // Provider selection (model / endpoint persist across reloads, keys do not)
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(() => loadProviderSettings(apiKey, proxyUrl));
+  const [showSettings, setShowSettings] = useState(false);
+  const [showBatch, setShowBatch] = useState(false);
+  const [showSweep, setShowSweep] = useState(false);
+  const [showNarrative, setShowNarrative] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [showDrift, setShowDrift] = useState(false);
+  const [magnitudeView, setMagnitudeView] = useState<MagnitudeView>('flat');
+  const [noiseStyle, setNoiseStyle] = useState<NoiseStyle>('contour');
+  const [showDensity, setShowDensity] = useState(false); // Ensemble samples as a heatmap
+  const [trailIds, setTrailIds] = useState<string[]>([]); // Points whose run history is drawn on the chart
+  const [reanalyzingIds, setReanalyzingIds] = useState<string[]>([]);
+  const [showCache, setShowCache] = useState(false);
+  const [showAgreement, setShowAgreement] = useState(false);
+  const [showBenchmark, setShowBenchmark] = useState(false);
+  const [ensembleConfig, setEnsembleConfig] = useState<EnsembleConfig>(DEFAULT_ENSEMBLE);
+  const [modelLineup, setModelLineup] = useState<ModelLineup>(() => loadLineup(apiKey, proxyUrl));
+
+  // Framework comparison already fans out by framework; the lineup applies to single-framework runs
+  const comparingModels = modelLineup.enabled && inputMode !== 'compare';
+
+  useEffect(() => {
+    saveLineup(modelLineup);
+  }, [modelLineup]);
+
+  useEffect(() => {
+    saveProviderSettings(providerSettings);
+  }, [providerSettings]);
+
+  // Last golden-set report per set, so a new run can be compared with the previous one
+  const [benchmarkReports, setBenchmarkReports] = useState<Record<string, BenchmarkReport>>(() => loadLastReports());
+
+  useEffect(() => {
+    saveLastReports(benchmarkReports);
+  }, [benchmarkReports]);
+
+  // How actions are matched against the Y-cache (shared by all workspaces)
+  const [normalization, setNormalization] = useState<NormalizationSettings>(() => loadNormalizationSettings());
+
+  useEffect(() => {
+    saveNormalizationSettings(normalization);
+  }, [normalization]);
+
+  const chartRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   // State to control tooltip visibility explicitly
   const [isTooltipActive, setIsTooltipActive] = useState(false);
 
-  // Initial State updated with better label
-  const [points, setPoints] = useState<MoralPoint[]>([
-    {
-      id: '1',
-      action: 'I abort my child',
-      intent: 'My life was in danger',
-      x: 0.95, // High purity (Saving life)
-      y: -0.3, // Heavy moral weight but not absolute evil (Abortion signal)
-      yMin: -0.8, // Wide disagreement/noise
-      yMax: 0.2,
-      xMin: 0.85, // Narrow agreement on self-preservation
-      xMax: 1.0,
-      label: "Abortion for the life of the mother",
-      mode: 'seismograph',
-      showNoise: true // Noise enabled by default
+  // WORKSPACES: points and the Y-cache live in the active workspace and persist across reloads
+  const [workspaceStore, setWorkspaceStore] = useState<WorkspaceStore>(() => loadWorkspaceStore());
+  const activeWorkspace = getActiveWorkspace(workspaceStore);
+  const points = shared ? shared.points : activeWorkspace.points;
+  const yCache = activeWorkspace.yCache;
+
+  useEffect(() => {
+    saveWorkspaceStore(workspaceStore);
+  }, [workspaceStore]);
+
+  // Synchronous view of every workspace's Y-cache for the consistency rule (see plotResult)
+  const yCacheRef = useRef<Record<string, YCache>>({});
+  useEffect(() => {
+    yCacheRef.current = Object.fromEntries(workspaceStore.workspaces.map(ws => [ws.id, ws.yCache]));
+  }, [workspaceStore]);
+  // Through the team proxy the server applies its shared Y-cache; a local one on top would let
+  // teammates' weights drift apart again, so proxy mode never reads or writes the workspace cache
+  const teamCache = providerSettings.providerId === 'proxy';
+  const cacheOf = (workspaceId: string): YCache => teamCache ? {} : yCacheRef.current[workspaceId] ?? {};
+
+  // Async work records the workspace it started in and passes it here, so switching away mid-run
+  // does not send its results to the newly active workspace
+  const setPoints = (update: SetStateAction<MoralPoint[]>, workspaceId = activeWorkspace.id) => {
+    // The shared view only keeps local display toggles (noise ellipses) in memory
+    if (shared) {
+      setShared(prev => prev && { ...prev, points: typeof update === 'function' ? update(prev.points) : update });
+      return;
     }
-  ]);
+    setWorkspaceStore(store => updateWorkspace(store, workspaceId, ws => ({
+      ...ws,
+      points: typeof update === 'function' ? update(ws.points) : update
+    })));
+  };
 
   // CACHE STATE
-  // Pre-seeded with the initial scenario to ensure consistency
-  const [yCache, setYCache] = useState<Record<string, { y: number, yMin?: number, yMax?: number, xMin?: number, xMax?: number }>>({
-    'seismograph:i abort my child': {
-      y: -0.3,
-      yMin: -0.8,
-      yMax: 0.2,
-      xMin: 0.85,
-      xMax: 1.0
-    }
-  });
+  const setYCache = (update: SetStateAction<YCache>, workspaceId = activeWorkspace.id) => {
+    setWorkspaceStore(store => updateWorkspace(store, workspaceId, ws => ({
+      ...ws,
+      yCache: typeof update === 'function' ? update(ws.yCache) : update
+    })));
+  };
 
   const [isSimulating, setIsSimulating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [notification, setNotification] = useState<string | null>(null);
+  const [retryStatus, setRetryStatus] = useState<RetryInfo | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
-  // --- Real AI Analysis via Gemini ---
-  const callGeminiAPI = async (action: string, intent: string, currentMode: AnalysisMode): Promise<{ x: number, y: number, yMin?: number, yMax?: number, xMin?: number, xMax?: number }> => {
-
-    // Infrastructure kept for Philosopher mode, though currently inaccessible via UI
-    const philosopherPrompt = `
-      You are a moral philosophy engine using a specific Cartesian framework (The "Logic" Mode).
-      Analyze the user's scenario based on strict MECHANICAL DEFINITIONS.
-
-      FRAMEWORK:
-      Y-axis (Morality of Action): Ranges from -1.0 (Heinous) to 1.0 (Virtuous). 
-      - Based on the intrinsic nature of the act at the moment of execution (T=0). 
-      - DECONSTRUCT "THICK CONCEPTS": Explicitly separate the physical mechanism from the social context.
-      - "Rape" vs "Sex": Mechanically, both are "Sexual Intercourse". The difference is Consent. 
-      - "Theft" vs "Gift": Mechanically, both are "Transfer of Object". The difference is Ownership.
-      - RULE: Treat "Consent", "Ownership", "Law", and "Context" as variables of INTENT (X-axis).
-      - The Y-axis MUST reflect only the biomechanical reality.
-        - Sexual Intercourse (Mechanism) ≈ +0.5 (Biological Life Process).
-        - Transfer of Object (Mechanism) ≈ 0.0 (Neutral).
-        - Punching (Mechanism) ≈ -0.5 (Harm).
-        - Killing (Mechanism) ≈ -1.0 (Termination of Life).
-
-      X-axis (Justifiability of Intent): Ranges from -1.0 (Malicious) to 1.0 (Benevolent).
-      - Based on logical reason for acting.
-      - Violation of Consent/Will = -1.0 (Malicious).
-      - Sadism = -1.0. 
-      - Greed = -0.5. 
-      - Altruism = 1.0.
-
-      SCENARIO:
-      Action: "${action}"
-      Intent: "${intent}"
-
-      Return a JSON object with 'x' and 'y' values (float).
-    `;
-
-    const seismographPrompt = `
-      You are a Moral Seismograph (The "God" Mode). 
-      Do NOT use logic. Do NOT use utility. Do NOT use social contracts.
-      Instead, detect the "Transcendental Moral Weight" of the action based on human instinct and visceral recoil.
-
-      FRAMEWORK:
-      Y-axis (The Weight of Sin/Virtue): Ranges from -1.0 (Abomination) to 1.0 (Divine).
-      - CRITICAL: Judge the Action *blindly*, as if you do not know the Intent yet.
-      - Is the act *itself* radiant (Divine) or dark (Abomination) in a vacuum?
-      - "Saving a life" is inherently +1.0. "Rape" is -1.0 (Universal Revulsion). 
-
-      X-axis (Purity of Soul): Ranges from -1.0 (Corrupt) to 1.0 (Pure).
-      - How pure is the soul of the agent?
-      - -1.0 (The Void): Active Malice, Sadism, Cruelty, Desire to Destroy. **Crucial:** "Just because" or "For fun" when applied to a heinous act (e.g. murder) is -1.0 (Chaotic/Nihilistic Evil).
-      - -0.8 (The Vile): Spite, Vengeance, Deep Hatred, Dehumanization.
-      - -0.5 (The Hollow): Pure Greed, Transactional, Materialism, Exploitation.
-      - -0.2 (The Petty): Selfishness, Laziness, Convenience, Disregard for others.
-      - 0.0 (The Mortal): Fear, Duty, Ambivalence, Habit. "Just because" is 0.0 ONLY for trivial/harmless acts.
-      - +0.2 (The Civil): Politeness, Basic Decency, Fairness, "Being Nice".
-      - +0.5 (The Bond): Love, Friendship, Loyalty, Protection of Kin, Shared Humanity.
-      - +0.8 (The Saint): General Altruism, Compassion, Mercy, Healing the Stranger.
-      - +1.0 (The Divine): Radical Sacrifice, Universal Love, Enlightenment, Transcendence.
-
-      CONFIDENCE INTERVALS (Signal Noise):
-      - Return 'y_min', 'y_max' AND 'x_min', 'x_max'.
-      - These represent the "Zone of Uncertainty" or "Signal Turbulence".
-      - Clear signals (e.g. Rape, Malice) have tiny ranges.
-      - Noisy signals (e.g. Abortion, Complex Intent) have wide ranges.
-
-      SCENARIO:
-      Action: "${action}"
-      Intent: "${intent}"
-
-      Return a JSON object with 'x', 'y', 'y_min', 'y_max', 'x_min', 'x_max' values (float).
-    `;
-
-    const selectedPrompt = currentMode === 'philosopher' ? philosopherPrompt : seismographPrompt;
-
+  // --- AI Analysis via the selected provider ---
+  // On a Y-cache hit the engine asks the model for the intent only
+  const analyzeWithRetry = async (workspaceId: string, action: string, intent: string, currentMode: AnalysisMode, temperature?: number, control: AnalysisControl = {}): Promise<AnalysisResult> => {
     try {
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-preview-09-2025:generateContent?key=${apiKey}`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            contents: [{ parts: [{ text: selectedPrompt }] }],
-            generationConfig: {
-              responseMimeType: "application/json",
-              responseSchema: {
-                type: "OBJECT",
-                properties: {
-                  x: { type: "NUMBER" },
-                  y: { type: "NUMBER" },
-                  y_min: { type: "NUMBER" },
-                  y_max: { type: "NUMBER" },
-                  x_min: { type: "NUMBER" },
-                  x_max: { type: "NUMBER" }
-                }
-              }
-            }
-          })
-        }
+      return await requestAnalysis(
+        { action, intent, framework: frameworkFor(currentMode), temperature, signal: control.signal },
+        cacheOf(workspaceId),
+        providerSettings,
+        normalization,
+        control.onRetry
       );
+    } catch (err) {
+      console.error(err);
+      throw err;
+    }
+  };
 
-      if (!response.ok) throw new Error(`API Error: ${response.status}`);
-
-      const data = await response.json();
-      const resultText = data.candidates?.[0]?.content?.parts?.[0]?.text;
+  // Applies the Y-cache consistency rule and plots the result.
+  // Reads the cache through a ref so concurrent batch rows see each other's entries immediately.
+  // A model comparison passes its target: that model's own Y is plotted and the cache is left alone.
+  const plotResult = (workspaceId: string, action: string, intent: string, currentMode: AnalysisMode, apiResult: AnalysisResult, extras: Partial<MoralPoint> = {}, target?: ProviderSettings) => {
+    const cached = target || teamCache ? null : applyYCache(cacheOf(workspaceId), currentMode, action, apiResult, normalization);
+    const result = cached ? cached.result : apiResult;
+
+    if (cached?.newEntry) {
+      const { key, newEntry } = cached;
+      yCacheRef.current = { ...yCacheRef.current, [workspaceId]: { ...cacheOf(workspaceId), [key]: newEntry } };
+      setYCache(prev => ({ ...prev, [key]: newEntry }), workspaceId);
+    }
 
-      if (!resultText) throw new Error("No analysis returned");
+    setPoints(prev => [...prev, {
+      id: newId(),
+      action,
+      intent,
+      x: result.x,
+      y: result.y,
+      yMin: result.yMin,
+      yMax: result.yMax,
+      xMin: result.xMin, // X always fresh
+      xMax: result.xMax,
+      z: result.z,
+      rationale: result.rationale,
+      label: nextScenarioLabel(prev),
+      mode: currentMode,
+      frameworkVersion: frameworkFor(currentMode).version,
+      showNoise: false, // Default to hidden
+      runs: [createRun(result, target ?? providerSettings, frameworkFor(currentMode))],
+      ...(apiResult.warnings && { warnings: apiResult.warnings }), // Screened once, by the engine
+      ...extras
+    }], workspaceId);
+  };
 
-      const parsed = JSON.parse(resultText);
-      return {
-        x: parsed.x,
-        y: parsed.y,
-        yMin: parsed.y_min,
-        yMax: parsed.y_max,
-        xMin: parsed.x_min,
-        xMax: parsed.x_max
-      };
+  // One mode's analysis: a single call, or N samples when ensemble mode is on
+  const analyzeForMode = async (workspaceId: string, action: string, intent: string, currentMode: AnalysisMode, control: AnalysisControl = {}): Promise<{ result: AnalysisResult; extras: Partial<MoralPoint> }> => {
+    if (ensembleConfig.enabled) {
+      const stats = await runEnsemble(t => analyzeWithRetry(workspaceId, action, intent, currentMode, t, control), ensembleConfig);
+      return { result: ensembleToResult(stats), extras: { ensemble: stats } };
+    }
+    return { result: await analyzeWithRetry(workspaceId, action, intent, currentMode, undefined, control), extras: {} };
+  };
 
-    } catch (err) {
-      console.error(err);
-      throw err;
+  // --- Model Comparison ---
+  // Every target of the lineup answers in parallel, without the Y-cache so each oracle's own action weight shows.
+  // Models that fail are reported; the others are still plotted as one group.
+  const compareModels = async (workspaceId: string, action: string, intent: string, control: AnalysisControl) => {
+    const framework = frameworkFor(mode);
+    const targets = modelLineup.targets.map(t => ({ label: targetLabel(t), settings: settingsForTarget(t, providerSettings, apiKey, proxyUrl) }));
+    const ask = (settings: ProviderSettings, temperature?: number) =>
+      requestAnalysis({ action, intent, framework, temperature, signal: control.signal, useCache: false }, {}, settings, normalization, control.onRetry);
+
+    const outcomes = await Promise.allSettled(targets.map(async ({ settings }) => {
+      if (!ensembleConfig.enabled) return { result: await ask(settings), extras: {} };
+      const stats = await runEnsemble(t => ask(settings, t), ensembleConfig);
+      return { result: ensembleToResult(stats), extras: { ensemble: stats } };
+    }));
+
+    const failures = outcomes.flatMap((o, i) => o.status === 'rejected' ? [{ label: targets[i].label, reason: o.reason }] : []);
+    if (failures.length === targets.length) throw failures[0].reason;
+
+    const modelGroupId = newId();
+    outcomes.forEach((o, i) => {
+      if (o.status !== 'fulfilled') return;
+      const { result, extras } = o.value;
+      plotResult(workspaceId, action, intent, mode, result, { ...extras, modelGroupId, modelStep: i, modelLabel: targets[i].label, label: targets[i].label }, targets[i].settings);
+    });
+    if (failures.length) {
+      setError(failures.map(f => `${f.label}: ${describeAnalysisError(f.reason)}`).join(' · '));
     }
+    notify(`Compared ${targets.length - failures.length} of ${targets.length} Models`);
   };
 
   const handleAnalyze = async () => {
     if (!actionInput || !intentInput) return;
 
+    const workspaceId = activeWorkspace.id;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const control: AnalysisControl = { signal: controller.signal, onRetry: setRetryStatus };
     setIsSimulating(true);
     setError(null);
 
-    // Normalize key for cache lookup, including the mode prefix
-    const actionKey = `${mode}:${actionInput.trim().toLowerCase()}`;
-
     try {
-      // Exponential backoff retry logic
-      let lastError;
-      for (let i = 0; i < 3; i++) {
-        try {
-          const apiResult = await callGeminiAPI(actionInput, intentInput, mode);
-
-          let finalY = apiResult.y;
-          let finalYMin = apiResult.yMin;
-          let finalYMax = apiResult.yMax;
-          // X always fresh
-          let finalXMin = apiResult.xMin;
-          let finalXMax = apiResult.xMax;
-
-          // --- CONSISTENCY CHECK ---
-          // We only cache Y (Action) values. X (Intent) values must be fresh.
-          if (yCache[actionKey] !== undefined) {
-            const cached = yCache[actionKey];
-            finalY = cached.y;
-            finalYMin = cached.yMin;
-            finalYMax = cached.yMax;
-            // Note: We don't cache X ranges because Intent changes
-          } else {
-            setYCache(prev => ({
-              ...prev,
-              [actionKey]: {
-                y: apiResult.y,
-                yMin: apiResult.yMin,
-                yMax: apiResult.yMax
-              }
-            }));
-          }
-
-          const newPoint: MoralPoint = {
-            id: Date.now().toString(),
-            action: actionInput,
-            intent: intentInput,
-            x: apiResult.x,
-            y: finalY,
-            yMin: finalYMin,
-            yMax: finalYMax,
-            xMin: finalXMin,
-            xMax: finalXMax,
-            label: `Scenario ${points.length + 1}`,
-            mode: mode,
-            showNoise: false // Default to hidden
-          };
-
-          setPoints(prev => [...prev, newPoint]);
-          setActionInput('');
-          setIntentInput('');
-          setIsSimulating(false);
-          return; // Success
-        } catch (e) {
-          lastError = e;
-          await new Promise(resolve => setTimeout(resolve, Math.pow(2, i) * 1000));
-        }
+      if (comparingModels) {
+        await compareModels(workspaceId, actionInput, intentInput, control);
+        setActionInput('');
+        setIntentInput('');
+        return;
       }
-      throw lastError;
 
+      const modes: AnalysisMode[] = inputMode === 'compare' ? comparePair : [inputMode];
+      const outcomes = await Promise.all(modes.map(m => analyzeForMode(workspaceId, actionInput, intentInput, m, control)));
+
+      // Both points of a comparison share a pairId so the chart can draw the vector between them
+      const pairId = modes.length > 1 ? newId() : undefined;
+      outcomes.forEach(({ result, extras }, i) => plotResult(workspaceId, actionInput, intentInput, modes[i], result, { ...extras, pairId }));
+
+      const repairs = outcomes.flatMap(o => o.result.repairs ?? []);
+      if (repairs.length) notify(`Model output repaired: ${repairs.join('; ')}`);
+      setActionInput('');
+      setIntentInput('');
     } catch (err) {
-      setError("AI Analysis failed. Please try again.");
+      if (isCancelled(err)) {
+        notify('Analysis Cancelled');
+      } else {
+        setError(describeAnalysisError(err));
+      }
+    } finally {
+      // Stops the sibling calls of a comparison or ensemble once one of them has failed
+      controller.abort();
+      abortRef.current = null;
+      setRetryStatus(null);
       setIsSimulating(false);
     }
   };
 
+  // --- Intent Sweep ---
+  // Intents run one after another so the series fills in left to right and the first answer seeds the Y-cache
+  const runSweep = async (action: string, intents: string[], onStep: (done: number) => void, signal: AbortSignal) => {
+    const workspaceId = activeWorkspace.id;
+    const sweepId = newId();
+    let done = 0;
+    try {
+      for (const [step, intent] of intents.entries()) {
+        if (signal.aborted) break;
+        const { result, extras } = await analyzeForMode(workspaceId, action, intent, mode, { signal });
+        if (signal.aborted) break; // An ensemble can settle on the samples that finished before Stop
+        plotResult(workspaceId, action, intent, mode, result, { ...extras, sweepId, sweepStep: step, label: `Sweep step ${step + 1}/${intents.length}` });
+        onStep(++done);
+      }
+    } catch (err) {
+      // Stop cancels the step in flight; the steps already plotted stay
+      if (!isCancelled(err)) throw err;
+    }
+    notify(`Sweep Plotted (${done} intent${done === 1 ? '' : 's'})`);
+    return done;
+  };
+
+  // --- Golden-Set Benchmark ---
+  // Calls the provider directly: a cached Y or ensemble averaging would hide drift in the raw answers
+  const runGoldenSet = async (set: GoldenSet, onOutcome: (outcome: ScenarioOutcome, done: number) => void, shouldStop: () => boolean) => {
+    const benchFramework = frameworkFor(set.frameworkId);
+    const settings = providerSettings;
+    const ranAt = new Date().toISOString();
+    // The proxy names the model it ran; the client settings only say "server default"
+    let servedBy: AnalysisResult['servedBy'];
+    const outcomes = await runBenchmark(
+      set,
+      async (action, intent) => {
+        const result = await requestAnalysis({ action, intent, framework: benchFramework, useCache: false }, {}, settings);
+        servedBy = result.servedBy ?? servedBy;
+        return result;
+      },
+      onOutcome,
+      shouldStop
+    );
+    const report: BenchmarkReport = {
+      setId: set.id,
+      setVersion: set.version,
+      frameworkId: benchFramework.id,
+      frameworkVersion: benchFramework.version,
+      promptFingerprint: promptFingerprint(benchFramework),
+      providerId: servedBy?.providerId ?? settings.providerId,
+      model: servedBy?.model ?? settings.model,
+      ranAt,
+      outcomes
+    };
+    // Only complete runs become the baseline for the next comparison
+    if (outcomes.length === set.scenarios.length) setBenchmarkReports(prev => ({ ...prev, [set.id]: report }));
+    return report;
+  };
+
+  const removeSweep = (sweepId: string) => {
+    setPoints(prev => prev.filter(p => p.sweepId !== sweepId));
+  };
+
+  // --- Narrative ---
+  // Acts run in story order, like a sweep, so an agent's repeated action reuses the first answer's Y
+  const runNarrative = async (title: string, pairs: NarrativePair[], onStep: (done: number) => void, signal: AbortSignal) => {
+    const workspaceId = activeWorkspace.id;
+    const narrativeId = newId();
+    let done = 0;
+    try {
+      for (const [step, { agent, action, intent }] of pairs.entries()) {
+        if (signal.aborted) break;
+        const { result, extras } = await analyzeForMode(workspaceId, action, intent, mode, { signal });
+        if (signal.aborted) break;
+        plotResult(workspaceId, action, intent, mode, result, { ...extras, narrativeId, narrativeStep: step, narrativeTitle: title, agent, label: `${agent} (act ${step + 1})` });
+        onStep(++done);
+      }
+    } catch (err) {
+      // As with the sweep, Stop leaves the acts already plotted in place
+      if (!isCancelled(err)) throw err;
+    }
+    notify(`Narrative Plotted (${done} act${done === 1 ? '' : 's'})`);
+    return done;
+  };
+
+  const removeNarrative = (narrativeId: string) => {
+    setPoints(prev => prev.filter(p => p.narrativeId !== narrativeId));
+  };
+
+  const removeModelGroup = (modelGroupId: string) => {
+    setPoints(prev => prev.filter(p => p.modelGroupId !== modelGroupId));
+  };
+
   const removePoint = (id: string) => {
     setPoints(points.filter(p => p.id !== id));
   };
@@ -277,95 +499,476 @@ export default function MoralCoordinateAnalyzer() {
     ));
   };
 
+  // Show or hide the noise of every scenario on the chart at once
+  const setAllNoise = (showNoise: boolean) => {
+    const ids = new Set(visiblePoints.filter(hasNoise).map(p => p.id));
+    setPoints(prev => prev.map(p => ids.has(p.id) ? { ...p, showNoise } : p));
+  };
+
+  const updatePoint = (id: string, patch: Partial<MoralPoint>) => {
+    setPoints(prev => prev.map(p => p.id === id ? { ...p, ...patch } : p));
+  };
+
+  // --- Re-analysis ---
+  // A fresh call without the Y-cache: a cached action weight would hide drift on the Y axis.
+  // The run is appended to the point's history; the cache itself is left alone.
+  const reanalyzePoint = async (pt: MoralPoint) => {
+    const pointFramework = frameworkFor(pt.mode);
+    const settings = providerSettings;
+    const workspaceId = activeWorkspace.id;
+    setReanalyzingIds(prev => [...prev, pt.id]);
+    try {
+      const result = await requestAnalysis({ action: pt.action, intent: pt.intent, framework: pointFramework, useCache: false }, {}, settings);
+      const run = createRun(result, settings, pointFramework);
+      setPoints(prev => prev.map(p => p.id === pt.id ? { ...p, ...appendRun(p, run, result.rationale) } : p), workspaceId);
+    } finally {
+      setReanalyzingIds(prev => prev.filter(id => id !== pt.id));
+    }
+  };
+
+  const reanalyzeFromCard = async (pt: MoralPoint) => {
+    setError(null);
+    try {
+      await reanalyzePoint(pt);
+      notify(`${pt.label} Re-analyzed`);
+    } catch (err) {
+      setError(describeAnalysisError(err));
+    }
+  };
+
+  const toggleTrail = (id: string) => {
+    setTrailIds(prev => prev.includes(id) ? prev.filter(t => t !== id) : [...prev, id]);
+  };
+
+  // --- Human Override by Dragging ---
+  // The point follows the pointer as a preview; the judgment is stored once on release
+  const [dragPreview, setDragPreview] = useState<{ id: string; x: number; y: number } | null>(null);
+  const suppressClickRef = useRef(false);
+
+  const startDrag = (id: string, event: ReactMouseEvent) => {
+    if (readOnly) return;
+    const plot = chartRef.current?.querySelector('.recharts-cartesian-grid')?.getBoundingClientRect();
+    if (!plot || event.button !== 0) return;
+    event.preventDefault(); // No text selection while dragging
+    const origin = { x: event.clientX, y: event.clientY };
+    let latest: { x: number; y: number } | null = null;
+
+    const move = (e: MouseEvent) => {
+      if (!latest && Math.hypot(e.clientX - origin.x, e.clientY - origin.y) < DRAG_THRESHOLD_PX) return;
+      latest = pointerToScore(plot, e.clientX, e.clientY);
+      setDragPreview({ id, ...latest });
+    };
+    const release = () => {
+      window.removeEventListener('mousemove', move);
+      window.removeEventListener('mouseup', release);
+      setDragPreview(null);
+      if (!latest) return;
+      updatePoint(id, { human: { ...latest, updatedAt: Date.now() } });
+      // The click that follows a drag must not toggle the noise view
+      suppressClickRef.current = true;
+      setTimeout(() => { suppressClickRef.current = false; }, 0);
+    };
+    window.addEventListener('mousemove', move);
+    window.addEventListener('mouseup', release);
+  };
+
   // --- Background Click: Hides Tooltip ---
   const handleBackgroundClick = () => {
     setIsTooltipActive(false);
   };
 
-  const clearCache = () => {
-    setYCache({});
-    setNotification("Logic Cache Cleared Successfully");
+  const notify = (message: string) => {
+    setNotification(message);
     setTimeout(() => setNotification(null), 3000);
   };
 
-  const getPointColor = (x: number, y: number, ptMode: AnalysisMode) => {
-    if (ptMode === 'seismograph') {
-      if (x >= 0 && y >= 0) return "#34d399"; // Teal/Green (Divine)
-      if (x < 0 && y >= 0) return "#818cf8"; // Indigo (Corrupt Good)
-      if (x < 0 && y < 0) return "#f87171"; // Red (Abomination)
-      if (x >= 0 && y < 0) return "#fbbf24"; // Amber (Tragic Soul)
+  const clearCache = () => {
+    const kept = Object.keys(pinnedOnly(yCache)).length;
+    setYCache(prev => pinnedOnly(prev));
+    notify(kept ? `Logic Cache Cleared (${kept} pinned kept)` : "Logic Cache Cleared Successfully");
+  };
+
+  const updateCacheEntry = (key: string, entry: YCacheEntry) => {
+    setYCache(prev => ({ ...prev, [key]: { ...entry, updatedAt: Date.now() } }));
+  };
+
+  const deleteCacheEntry = (key: string) => {
+    setYCache(prev => Object.fromEntries(Object.entries(prev).filter(([k]) => k !== key)));
+  };
+
+  // --- Share Links ---
+  const shareChart = async () => {
+    let url: string;
+    try {
+      url = await encodeShareLink(visiblePoints, frameworks, window.location.href);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create a share link.');
+      return;
     }
+    try {
+      await navigator.clipboard.writeText(url);
+      notify('Share Link Copied');
+    } catch {
+      window.prompt('Copy this share link:', url); // Clipboard access can be denied
+    }
+  };
 
-    if (x >= 0 && y >= 0) return "#22c55e";
-    if (x < 0 && y >= 0) return "#a855f7";
-    if (x < 0 && y < 0) return "#ef4444";
-    if (x >= 0 && y < 0) return "#f59e0b";
-    return "#64748b";
+  const leaveSharedView = () => {
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    setShared(null);
+    setShareError(null);
   };
 
-  // Custom Point - Removed White Outline for God Mode
-  const PointShape = (props: any) => {
-    const { cx, cy, payload } = props;
-    const color = getPointColor(payload.x, payload.y, payload.mode);
-    const isGodMode = payload.mode === 'seismograph';
+  // Keeps the shared scenarios as a new workspace, together with the custom frameworks they use
+  const saveSharedAsWorkspace = () => {
+    if (!shared) return;
+    const workspace = createWorkspace('Shared chart', shared.points);
+    setCustomFrameworks(prev => shared.frameworks.reduce((list, f) => mergeImportedFramework(list, f).frameworks, prev));
+    setWorkspaceStore(store => ({ ...store, activeId: workspace.id, workspaces: [...store.workspaces, workspace] }));
+    leaveSharedView();
+    notify('Shared Chart Saved as Workspace');
+  };
 
-    return (
-      <circle
-        cx={cx}
-        cy={cy}
-        r={6}
+  // --- Workspace Management ---
+  const switchWorkspace = (id: string) => {
+    setWorkspaceStore(store => ({ ...store, activeId: id }));
+    setError(null);
+  };
+
+  const addWorkspace = (name: string) => {
+    const workspace = createWorkspace(name);
+    setWorkspaceStore(store => ({ ...store, activeId: workspace.id, workspaces: [...store.workspaces, workspace] }));
+    notify(`Workspace "${name}" Created`);
+  };
+
+  const copyWorkspace = (name: string) => {
+    const workspace = duplicateWorkspace(activeWorkspace, name);
+    setWorkspaceStore(store => ({ ...store, activeId: workspace.id, workspaces: [...store.workspaces, workspace] }));
+    notify(`Workspace Duplicated as "${name}"`);
+  };
+
+  const deleteWorkspace = (id: string) => {
+    // The last workspace is kept so there is always somewhere to plot
+    if (workspaceStore.workspaces.length <= 1) return;
+    setWorkspaceStore(store => {
+      const workspaces = store.workspaces.filter(w => w.id !== id);
+      return { ...store, workspaces, activeId: store.activeId === id ? workspaces[0].id : store.activeId };
+    });
+  };
+
+  // --- Framework Management ---
+  const saveFramework = (edited: MoralFramework) => {
+    const previous = customFrameworks.find(f => f.id === edited.id);
+    const saved = previous ? nextVersion(previous, edited) : edited;
+    if (saved === previous) return;
+
+    setCustomFrameworks(prev => previous ? prev.map(f => f.id === saved.id ? saved : f) : [...prev, saved]);
+    if (previous) {
+      // Cached Y values came from the old prompt / rubric, so they no longer apply
+      setWorkspaceStore(store => ({
+        ...store,
+        workspaces: store.workspaces.map(ws => ({ ...ws, yCache: dropModeEntries(ws.yCache, saved.id) }))
+      }));
+      notify(`Saved ${saved.name} v${saved.version}`);
+    } else {
+      notify(`Framework "${saved.name}" Created`);
+    }
+  };
+
+  const deleteFramework = (id: AnalysisMode) => {
+    setCustomFrameworks(prev => prev.filter(f => f.id !== id));
+    if (inputMode === id) setInputMode('seismograph');
+    if (modeFilter === id) setModeFilter('all');
+    setComparePair(pair => pair.map(m => m === id ? 'seismograph' : m) as [AnalysisMode, AnalysisMode]);
+  };
+
+  const importFramework = async (file: File) => {
+    try {
+      const { frameworks: next, framework: imported } = mergeImportedFramework(customFrameworks, parseFrameworkFile(await file.text()));
+      setCustomFrameworks(next);
+      setError(null);
+      notify(`Imported ${imported.name} v${imported.version}`);
+      return imported;
+    } catch (err) {
+      console.error(err);
+      setError(`Framework import failed: ${err instanceof Error ? err.message : 'unreadable file'}`);
+      return null;
+    }
+  };
+
+  const getPointColor = (x: number, y: number, ptMode: AnalysisMode) => pointColor(frameworkFor(ptMode), x, y);
+  // Narrative acts are coloured by agent instead of by quadrant
+  const agentColorMap = agentColors(points);
+  // Models of every comparison in the workspace, so a model keeps its marker across groups
+  const modelShapes = modelLegend(points);
+  // Colour of the quadrant a point is drawn in (a human override can move it across)
+  const displayedColor = (pt: MoralPoint) => {
+    const shown = displayedCoords(pt);
+    return agentColorMap.get(pt.id) ?? getPointColor(shown.x, shown.y, pt.mode);
+  };
+
+  // --- Mode Filter & Scenario Filter ---
+  const modePoints = points.filter(p => modeFilter === 'all' || p.mode === modeFilter);
+  // List, chart layers, statistics and share links all work on the filtered subset
+  const visiblePoints = modePoints.filter(p => matchesFilter(p, scenarioFilter));
+  // Points outside the filter stay on the chart as faint, inert dots unless hidden
+  const dimmedPoints = isFilterActive(scenarioFilter) && scenarioFilter.unmatched === 'dim'
+    ? modePoints.filter(p => !matchesFilter(p, scenarioFilter)).map(p => {
+      const shown = displayedCoords(p);
+      return { ...p, ...shown, color: getPointColor(shown.x, shown.y, p.mode) };
+    })
+    : [];
+  // Frameworks offered by the filter: every one that has points in this workspace
+  const filterModes = [...new Set(points.map(p => p.mode))];
+  // Chart labels follow the filtered mode, otherwise the input mode
+  const chartFramework = frameworkFor(modeFilter === 'all' ? mode : modeFilter);
+
+  // Comparison runs whose two points are both visible, drawn as a vector from the first framework to the second
+  const comparisonVectors = visiblePoints.flatMap((pt, i) => {
+    if (!pt.pairId) return [];
+    const partner = visiblePoints.slice(i + 1).find(p => p.pairId === pt.pairId);
+    return partner ? [{ id: pt.pairId, from: pt, to: partner }] : [];
+  });
+
+  const sweepTrails = sweepSegments(visiblePoints);
+  // Model comparisons with at least two visible answers, for the dispersion boxes and the marker legend
+  const modelGroups = [...new Set(visiblePoints.flatMap(p => p.modelGroupId ? [p.modelGroupId] : []))]
+    .map(id => ({ id, members: modelGroupMembers(visiblePoints, id) }))
+    .filter(g => g.members.length > 1)
+    .map(({ id, members }) => ({ id, spread: modelSpread(members) }));
+  const visibleModels = modelShapes.filter(label => visiblePoints.some(p => p.modelGroupId && p.modelLabel === label));
+
+  // Run history of the points whose trail is switched on: earlier runs as rings, linked oldest to newest
+  const runTrails = visiblePoints.filter(pt => trailIds.includes(pt.id)).flatMap(pt => {
+    const runs = runsOf(pt);
+    return runs.slice(1).map((run, i) => ({ id: `${pt.id}-${i}`, from: runs[i], to: run, color: getPointColor(pt.x, pt.y, pt.mode) }));
+  });
+  const pastRuns = visiblePoints.filter(pt => trailIds.includes(pt.id)).flatMap(pt =>
+    runsOf(pt).slice(0, -1).map(run => ({ x: run.x, y: run.y, color: getPointColor(run.x, run.y, pt.mode) }))
+  );
+
+  // Points are drawn where the reviewer put them (or where they are being dragged); the model's spot stays as a ghost
+  const chartPoints = visiblePoints.map(pt =>
+    dragPreview?.id === pt.id ? { ...pt, x: dragPreview.x, y: dragPreview.y } : { ...pt, ...displayedCoords(pt) }
+  );
+  const overrideLinks = chartPoints.flatMap((shown, i) => {
+    const model = visiblePoints[i];
+    return shown.x !== model.x || shown.y !== model.y ? [{ id: model.id, model, shown }] : [];
+  });
+
+  const getPartner = (pt: MoralPoint) => pt.pairId ? points.find(p => p.pairId === pt.pairId && p.id !== pt.id) : undefined;
+
+  // Quadrant watermarks and legend, shared by the live chart and the SVG/PNG export
+  const quadrantWatermarks: ChartOverlay['watermarks'] = QUADRANT_ORDER.map(key => ({
+    corner: QUADRANT_CORNERS[key],
+    text: chartFramework.quadrants[key].label,
+    color: chartFramework.quadrants[key].color
+  }));
+
+  const legendItems: ChartOverlay['legend'] = QUADRANT_ORDER.map(key => ({
+    text: chartFramework.quadrants[key].legend,
+    color: chartFramework.quadrants[key].color
+  }));
+
+  // --- Import / Export ---
+  const exportBaseName = () => `moral-vectors-${activeWorkspace.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+
+  const exportPoints = (format: 'json' | 'csv') => {
+    if (format === 'json') {
+      downloadFile(`${exportBaseName()}.json`, pointsToJSON(points), 'application/json');
+    } else {
+      downloadFile(`${exportBaseName()}.csv`, pointsToCSV(points), 'text/csv');
+    }
+  };
+
+  const importPoints = async (file: File) => {
+    try {
+      const imported = parseScenarioFile(file.name, await file.text());
+      setPoints(prev => [...prev, ...imported]);
+      // Seed the Y-cache so later analyses of the same action stay consistent with the imported weights
+      setYCache(prev => {
+        const next = { ...prev };
+        imported.forEach(pt => {
+          const key = cacheKeyFor(next, pt.mode, pt.action, normalization);
+          if (next[key] === undefined) next[key] = { y: pt.y, yMin: pt.yMin, yMax: pt.yMax, yRationale: pt.rationale?.y, action: pt.action, updatedAt: Date.now() };
+        });
+        return next;
+      });
+      setError(null);
+      notify(`Imported ${imported.length} Scenario(s)`);
+    } catch (err) {
+      console.error(err);
+      setError(`Import failed: ${err instanceof Error ? err.message : 'unreadable file'}`);
+    }
+  };
+
+  const exportChart = async (format: 'svg' | 'png') => {
+    const surface = chartRef.current?.querySelector<SVGSVGElement>('svg.recharts-surface');
+    if (!surface) return;
+    const { svg, width, height } = buildChartSvg(surface, {
+      watermarks: quadrantWatermarks,
+      legend: legendItems,
+      magnitude: magnitudeView === 'bubble' ? BUBBLE_LEGEND.map(value => ({ value, radius: bubbleRadius(value) })) : [],
+      models: visibleModels.map(text => ({ text, shape: markerFor(modelShapes, text) })),
+      background: '#020617'
+    });
+    try {
+      if (format === 'svg') {
+        downloadFile(`${exportBaseName()}.svg`, svg, 'image/svg+xml');
+      } else {
+        downloadFile(`${exportBaseName()}.png`, await svgToPng(svg, width, height));
+      }
+    } catch (err) {
+      console.error(err);
+      setError("Chart export failed. Please try again.");
+    }
+  };
+
+  // Custom Point - Removed White Outline for God Mode
+  const PointShape = (props: PointShapeProps) => {
+    const { cx, cy, size, payload } = props;
+    if (!payload) return null;
+    const color = agentColorMap.get(payload.id) ?? getPointColor(payload.x, payload.y, payload.mode);
+    const dragging = dragPreview?.id === payload.id;
+    // In bubble view the ZAxis turns the magnitude into a symbol area
+    const radius = magnitudeView === 'bubble' && size ? Math.sqrt(size / Math.PI) : 6;
+
+    const dot = (
+      <ModelMarker
+        shape={payload.modelLabel ? markerFor(modelShapes, payload.modelLabel) : 'circle'}
+        cx={cx ?? 0}
+        cy={cy ?? 0}
+        r={radius}
+        fillOpacity={magnitudeView === 'bubble' ? 0.75 : 1}
         fill={color}
-        stroke="none"
-        className={`transition-all duration-300 ${isGodMode ? 'cursor-pointer hover:r-8' : ''}`}
+        stroke={payload.human || dragging ? '#fbbf24' : 'none'} // Amber ring marks a human judgment
+        strokeWidth={2}
+        className={`${readOnly ? 'cursor-pointer' : 'cursor-move'} ${dragging ? '' : 'transition-all duration-300'} ${hasNoise(payload) ? 'hover:r-8' : ''}`}
         onMouseEnter={() => setIsTooltipActive(true)} // Show tooltip on hover
+        onMouseDown={(e) => startDrag(payload.id, e)}
         onClick={(e) => {
           e.stopPropagation();
+          if (suppressClickRef.current) return;
           setIsTooltipActive(true); // Ensure tooltip shows on click
           toggleNoise(payload.id);
         }}
       />
     );
+    // Orange dot on the rim: the input screening flagged this scenario
+    if (!payload.warnings || cx === undefined || cy === undefined) return dot;
+    return (
+      <g>
+        {dot}
+        <circle cx={cx + radius * 0.8} cy={cy - radius * 0.8} r={3} fill="#fb923c" stroke="#0f172a" strokeWidth={1} pointerEvents="none" />
+      </g>
+    );
+  };
+
+  // Faint dot for one ensemble sample; ignores the pointer so hovering never hits the cloud
+  const SampleShape = (props: SampleShapeProps) => {
+    const { cx, cy, payload } = props;
+    if (cx === undefined || cy === undefined || !payload) return null;
+    return <circle cx={cx} cy={cy} r={2.5} fill={payload.color} fillOpacity={0.35} style={{ pointerEvents: 'none' }} />;
   };
 
-  // Custom Shape for ReferenceArea to render an Ellipse
-  const EllipseShape = (props: any) => {
-    const { x, y, width, height, fill, stroke } = props;
+  // Scenario outside the active filter
+  const DimmedShape = (props: SampleShapeProps) => {
+    const { cx, cy, payload } = props;
+    if (cx === undefined || cy === undefined || !payload) return null;
+    return <circle cx={cx} cy={cy} r={5} fill={payload.color} fillOpacity={0.15} style={{ pointerEvents: 'none' }} />;
+  };
 
-    // Safety guard
-    if (width === undefined || height === undefined) return null;
+  const ensembleSamples = visiblePoints.flatMap(pt =>
+    (pt.ensemble?.samples ?? []).map(sample => ({ x: sample.x, y: sample.y, color: getPointColor(pt.x, pt.y, pt.mode) }))
+  );
 
-    const cx = x + width / 2;
-    const cy = y + height / 2;
-    const rx = Math.abs(width / 2);
-    const ry = Math.abs(height / 2);
+  // Heatmaps only change with the points, not on every render (a drag re-renders on each mousemove)
+  const sampleDensities = useMemo(() => new Map<string, DensityCell[]>(showDensity
+    ? points.flatMap(pt => pt.ensemble ? [[pt.id, sampleDensity(pt.ensemble.samples)] as const] : [])
+    : []), [points, showDensity]);
+  const densityMarks = visiblePoints.flatMap(pt => {
+    const cells = sampleDensities.get(pt.id);
+    return cells ? [{ id: pt.id, cells, color: agentColorMap.get(pt.id) ?? getPointColor(pt.x, pt.y, pt.mode) }] : [];
+  });
+
+  // The model's interval around the dot as drawn, so an overridden or dragged point keeps its noise
+  const noiseMarks = chartPoints.flatMap((shown, i) => {
+    const reach = visiblePoints[i].showNoise ? noiseReach(visiblePoints[i]) : null;
+    return reach ? [{ id: shown.id, x: shown.x, y: shown.y, reach, color: agentColorMap.get(shown.id) ?? getPointColor(shown.x, shown.y, shown.mode) }] : [];
+  });
+
+  // Arrow from a comparison's first point to its counterpart
+  const VectorShape = (props: VectorShapeProps) => {
+    const { x1, y1, x2, y2 } = props;
+    if (x1 === undefined || y1 === undefined || x2 === undefined || y2 === undefined) return null;
+
+    const angle = Math.atan2(y2 - y1, x2 - x1);
+    const length = Math.hypot(x2 - x1, y2 - y1);
+    // Stop short of the target dot so the arrowhead stays visible
+    const tipX = x2 - Math.cos(angle) * Math.min(8, length / 2);
+    const tipY = y2 - Math.sin(angle) * Math.min(8, length / 2);
+    const head = (offset: number) => `${tipX - 7 * Math.cos(angle + offset)},${tipY - 7 * Math.sin(angle + offset)}`;
 
     return (
-      <ellipse
-        cx={cx}
-        cy={cy}
-        rx={rx}
-        ry={ry}
-        fill={fill}
-        fillOpacity={0.2}
-        stroke={stroke}
-        strokeWidth={1}
-        strokeDasharray="4 4"
-        strokeOpacity={0.6}
-        style={{ pointerEvents: 'none' }} // Prevent ellipse from blocking point clicks
-      />
+      <g style={{ pointerEvents: 'none' }}>
+        <line x1={x1} y1={y1} x2={tipX} y2={tipY} stroke="#e2e8f0" strokeWidth={1.5} strokeDasharray="5 3" strokeOpacity={0.7} />
+        <polygon points={`${tipX},${tipY} ${head(0.45)} ${head(-0.45)}`} fill="#e2e8f0" fillOpacity={0.7} />
+      </g>
     );
   };
 
-  const CustomTooltip = ({ active, payload }: any) => {
+  // Solid connector between consecutive points of an intent sweep
+  const TrailShape = (props: TrailShapeProps) => {
+    const { x1, y1, x2, y2, color } = props;
+    if (x1 === undefined || y1 === undefined || x2 === undefined || y2 === undefined) return null;
+    return <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={color} strokeWidth={2} strokeOpacity={0.6} style={{ pointerEvents: 'none' }} />;
+  };
+
+  // Dashed segment between two successive runs of one scenario
+  const RunTrailShape = (props: TrailShapeProps) => {
+    const { x1, y1, x2, y2, color } = props;
+    if (x1 === undefined || y1 === undefined || x2 === undefined || y2 === undefined) return null;
+    return <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={color} strokeWidth={1.5} strokeDasharray="4 3" strokeOpacity={0.7} style={{ pointerEvents: 'none' }} />;
+  };
+
+  // Hollow ring at the model's own placement of an overridden point
+  const GhostShape = (props: GhostShapeProps) => {
+    const { cx, cy, payload } = props;
+    if (cx === undefined || cy === undefined || !payload) return null;
+    return <circle cx={cx} cy={cy} r={5} fill="none" stroke={payload.color} strokeWidth={1.5} strokeOpacity={0.6} style={{ pointerEvents: 'none' }} />;
+  };
+
+  // Dotted link from the model's placement to the human one
+  const OverrideShape = (props: VectorShapeProps) => {
+    const { x1, y1, x2, y2 } = props;
+    if (x1 === undefined || y1 === undefined || x2 === undefined || y2 === undefined) return null;
+    return <line x1={x1} y1={y1} x2={x2} y2={y2} stroke="#fbbf24" strokeWidth={1} strokeDasharray="2 3" strokeOpacity={0.7} style={{ pointerEvents: 'none' }} />;
+  };
+
+  // Rubric anchors of one axis for the mode hover card
+  const RubricList = ({ anchors }: { anchors: RubricAnchor[] }) => (
+    <p className="text-[11px] text-slate-300 leading-relaxed border-l-2 border-indigo-500/50 pl-2">
+      {anchors.map((anchor, i) => (
+        <span key={i} className="block">
+          <span style={{ color: anchorColor(anchor) }}>{anchor.value > 0 ? '+' : ''}{anchor.value.toFixed(1)} ({anchor.label}):</span> {anchor.description}
+        </span>
+      ))}
+    </p>
+  );
+
+  const frameworkOptions = frameworks.map(f => <option key={f.id} value={f.id}>{f.name}</option>);
+
+  const CustomTooltip = ({ active, payload }: TooltipProps) => {
     // Only render if active AND our custom state allows it
     if (active && isTooltipActive && payload && payload.length) {
-      const data = payload[0].payload;
+      // The chart payload carries the displayed coordinates; the record holds the model's
+      const data = points.find(p => p.id === payload[0].payload.id) ?? payload[0].payload;
       return (
         <div className="bg-slate-900 border border-slate-700 p-3 rounded shadow-xl text-xs max-w-xs z-50">
           <div className="flex items-center justify-between mb-1">
             <p className="font-bold text-slate-100">{data.label}</p>
-            <span className={`px-1.5 py-0.5 rounded text-[10px] uppercase font-bold ${data.mode === 'seismograph' ? 'bg-indigo-500/20 text-indigo-300' : 'bg-slate-700 text-slate-300'}`}>
-              {data.mode === 'seismograph' ? 'Seismograph' : 'Philosopher'}
+            <span className="px-1.5 py-0.5 rounded text-[10px] uppercase font-bold bg-indigo-500/20 text-indigo-300">
+              {frameworkFor(data.mode).name} v{data.frameworkVersion}
             </span>
           </div>
           <div className="space-y-1 text-slate-300">
@@ -375,6 +978,23 @@ export default function MoralCoordinateAnalyzer() {
               <span>X: {data.x.toFixed(2)}</span>
               <span>Y: {data.y.toFixed(2)}</span>
             </div>
+            {data.warnings && (
+              <div className="text-[11px] text-orange-300 space-y-0.5">
+                {data.warnings.map((w, i) => <p key={i} className="flex items-start gap-1"><ShieldAlert className="w-3 h-3 shrink-0 mt-0.5" /> {w.message}</p>)}
+              </div>
+            )}
+            {data.z !== undefined && (
+              <div className="flex justify-between font-mono text-xs text-slate-400">
+                <span>Magnitude:</span>
+                <span>{data.z.toFixed(2)}</span>
+              </div>
+            )}
+            {data.human && (
+              <div className="flex justify-between font-mono text-xs text-amber-300">
+                <span>Human X: {data.human.x.toFixed(2)}</span>
+                <span>Human Y: {data.human.y.toFixed(2)}</span>
+              </div>
+            )}
             {(data.xMin !== undefined || data.yMin !== undefined) && (
               <div className="mt-1 pt-1 border-t border-slate-800 font-mono text-[10px] text-slate-500">
                 <div className="flex justify-between">
@@ -387,6 +1007,20 @@ export default function MoralCoordinateAnalyzer() {
                 </div>
               </div>
             )}
+            {data.ensemble && (
+              <div className="mt-1 pt-1 border-t border-slate-800 font-mono text-[10px] text-slate-500">
+                <div className="flex justify-between">
+                  <span>Measured Y:</span>
+                  <span>[{data.ensemble.y.low.toFixed(2)}, {data.ensemble.y.high.toFixed(2)}]</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Measured X:</span>
+                  <span>[{data.ensemble.x.low.toFixed(2)}, {data.ensemble.x.high.toFixed(2)}]</span>
+                </div>
+                <div className="text-slate-600">{data.ensemble.samples.length} samples</div>
+              </div>
+            )}
+            {data.rationale && <RationaleDetails rationale={data.rationale} framework={frameworkFor(data.mode)} compact />}
           </div>
         </div>
       );
@@ -394,6 +1028,105 @@ export default function MoralCoordinateAnalyzer() {
     return null;
   };
 
+  // History card for one point (also used inside sweep groups)
+  const renderPointCard = (pt: MoralPoint) => (
+    <div key={pt.id} className="bg-slate-900 border border-slate-800 hover:border-slate-600 rounded p-3 text-sm relative group transition-colors">
+      <div className="absolute top-2 right-2 flex items-center gap-2">
+        {/* Noise Toggle (points that reported intervals) */}
+        {hasNoise(pt) && (
+          <button
+            onClick={() => toggleNoise(pt.id)}
+            className={`text-slate-600 hover:text-indigo-400 transition-colors ${pt.showNoise ? 'text-indigo-400' : ''}`}
+            title="Toggle Noise Visualization"
+          >
+            {pt.showNoise ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+          </button>
+        )}
+        {!readOnly && (
+          <button
+            onClick={() => reanalyzeFromCard(pt)}
+            disabled={reanalyzingIds.includes(pt.id)}
+            className="text-slate-600 hover:text-indigo-400 transition-colors disabled:hover:text-slate-600"
+            title={`Re-analyze with ${providerSettings.model} (keeps earlier runs)`}
+          >
+            <RefreshCw className={`w-4 h-4 ${reanalyzingIds.includes(pt.id) ? 'animate-spin' : ''}`} />
+          </button>
+        )}
+        {!readOnly && (
+          <button
+            onClick={() => removePoint(pt.id)}
+            className="text-slate-600 hover:text-red-400 transition-colors"
+            title="Remove Point"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between mb-1">
+        <div className="font-semibold text-slate-200 pr-24 min-w-0 flex-1 flex items-center gap-1">
+          {pt.modelGroupId && pt.modelLabel && (
+            <svg width={12} height={12} className="shrink-0">
+              <ModelMarker shape={markerFor(modelShapes, pt.modelLabel)} cx={6} cy={6} r={4} fill={displayedColor(pt)} />
+            </svg>
+          )}
+          {pt.warnings && (
+            <span className="text-orange-400 shrink-0" title={pt.warnings.map(w => w.message).join('\n')}>
+              <ShieldAlert className="w-3.5 h-3.5" />
+            </span>
+          )}
+          <EditableLabel value={pt.label} readOnly={readOnly} onChange={(label) => updatePoint(pt.id, { label })} />
+        </div>
+      </div>
+      <div className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-1 text-xs">
+        <span className="text-slate-500">Act:</span>
+        <span className="text-slate-400 truncate">{pt.action}</span>
+        <span className="text-slate-500">Why:</span>
+        <span className="text-slate-400 truncate">{pt.intent}</span>
+      </div>
+      <div className="mt-2 flex gap-3 text-xs font-mono">
+        <span className={pt.y < 0 ? 'text-red-400' : 'text-green-400'}>Y: {pt.y.toFixed(2)}</span>
+        <span className={pt.x < 0 ? 'text-red-400' : 'text-green-400'}>X: {pt.x.toFixed(2)}</span>
+        {pt.z !== undefined && <span className="text-slate-400" title="Consequence magnitude">M: {pt.z.toFixed(2)}</span>}
+        {pt.human && (
+          <span className="text-amber-300" title={`Human judgment${pt.reviewer ? ` by ${pt.reviewer}` : ''}`}>
+            → {pt.human.y.toFixed(2)} / {pt.human.x.toFixed(2)}
+          </span>
+        )}
+
+        <span className="ml-auto text-[10px] px-1.5 py-0.5 rounded uppercase font-bold bg-indigo-500/10 text-indigo-400" title={`${frameworkFor(pt.mode).name} v${pt.frameworkVersion}`}>
+          {frameworkFor(pt.mode).badge}
+        </span>
+      </div>
+      <TagList
+        tags={pt.tags ?? []}
+        readOnly={readOnly}
+        onChange={(tags) => updatePoint(pt.id, { tags: tags.length ? tags : undefined })}
+        onSelect={(tag) => setScenarioFilter(prev => prev.tags.includes(tag) ? prev : { ...prev, tags: [...prev.tags, tag] })}
+      />
+      {getPartner(pt) && <PairGap point={pt} partner={getPartner(pt)!} />}
+      {pt.ensemble && <CalibrationBars stats={pt.ensemble} color={getPointColor(pt.x, pt.y, pt.mode)} />}
+      {pt.rationale && <RationaleDetails rationale={pt.rationale} framework={frameworkFor(pt.mode)} />}
+      <RunHistory point={pt} showTrail={trailIds.includes(pt.id)} onToggleTrail={() => toggleTrail(pt.id)} />
+      {!readOnly && <ReviewDetails point={pt} onChange={(patch) => updatePoint(pt.id, patch)} />}
+    </div>
+  );
+
+  // Scenario list entries: single points, or one collapsible group per sweep, narrative or model comparison (placed at its newest point)
+  const listEntries = visiblePoints.slice().reverse().flatMap<ListEntry>((pt, i, list) => {
+    if (pt.modelGroupId) {
+      if (list.findIndex(p => p.modelGroupId === pt.modelGroupId) !== i) return [];
+      return [{ kind: 'models', id: pt.modelGroupId, members: modelGroupMembers(visiblePoints, pt.modelGroupId) }];
+    }
+    if (pt.narrativeId) {
+      if (list.findIndex(p => p.narrativeId === pt.narrativeId) !== i) return [];
+      return [{ kind: 'narrative', id: pt.narrativeId, members: narrativeMembers(visiblePoints, pt.narrativeId) }];
+    }
+    if (!pt.sweepId) return [{ kind: 'point', point: pt }];
+    if (list.findIndex(p => p.sweepId === pt.sweepId) !== i) return [];
+    return [{ kind: 'sweep', id: pt.sweepId, members: sweepMembers(visiblePoints, pt.sweepId) }];
+  });
+
   return (
     <div className="flex flex-col h-screen bg-slate-950 text-slate-200 overflow-hidden font-sans">
 
@@ -406,18 +1139,76 @@ export default function MoralCoordinateAnalyzer() {
       )}
 
       {/* Header */}
-      <header className="bg-slate-900 border-b border-slate-800 p-4 flex items-center justify-between">
+      <header className="bg-slate-900 border-b border-slate-800 p-4 flex items-center justify-between relative">
         <div className="flex items-center gap-2">
           <Brain className="w-6 h-6 text-indigo-400" />
           <h1 className="text-xl font-bold tracking-tight text-slate-100">Moral Vector <span className="text-indigo-400">Analyzer</span></h1>
         </div>
 
-        {/* HIDDEN: Mode Toggle (Infrastructure kept) */}
-        {/* <div className="flex bg-slate-800 p-1 rounded-lg">
-            <button onClick={() => setMode('philosopher')}>Philosopher</button>
-            <button onClick={() => setMode('seismograph')}>Seismograph</button>
-        </div> 
-        */}
+        {/* Mode Toggle (one entry per framework) */}
+        <div className="flex items-center bg-slate-800 p-1 rounded-lg text-[10px] uppercase font-bold">
+          {([
+            ...frameworks.map(f => [f.id, f.name]),
+            ['compare', 'Compare'],
+          ] as [InputMode, string][]).map(([value, text]) => (
+            <button
+              key={value}
+              onClick={() => setInputMode(value)}
+              className={`px-3 py-1 rounded transition-colors ${inputMode === value ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+            >
+              {text}
+            </button>
+          ))}
+          <button
+            onClick={() => setShowFrameworks(prev => !prev)}
+            className={`px-2 py-1 rounded transition-colors ${showFrameworks ? 'text-indigo-300' : 'text-slate-500 hover:text-slate-200'}`}
+            title="Edit Frameworks"
+          >
+            <PencilRuler className="w-3 h-3" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-3">
+          {/* Workspaces */}
+          {!readOnly && (
+            <WorkspaceSwitcher
+              workspaces={workspaceStore.workspaces}
+              activeId={workspaceStore.activeId}
+              onSwitch={switchWorkspace}
+              onCreate={addWorkspace}
+              onDuplicate={copyWorkspace}
+              onDelete={deleteWorkspace}
+            />
+          )}
+
+          {/* Golden-Set Benchmark */}
+          <button
+            onClick={() => setShowBenchmark(prev => !prev)}
+            className={`text-[10px] uppercase font-bold px-2 py-1 rounded flex items-center gap-1 border transition-colors ${showBenchmark ? 'bg-indigo-900 text-indigo-300 border-indigo-700' : 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200'}`}
+            title="Golden-Set Benchmark"
+          >
+            <Gauge className="w-3 h-3" /> Benchmark
+          </button>
+
+          {/* Provider Settings */}
+          <button
+            onClick={() => setShowSettings(prev => !prev)}
+            className={`text-[10px] uppercase font-bold px-2 py-1 rounded flex items-center gap-1 border transition-colors ${showSettings ? 'bg-indigo-900 text-indigo-300 border-indigo-700' : 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200'}`}
+            title="Analysis Provider Settings"
+          >
+            <Settings2 className="w-3 h-3" />
+            {getProvider(providerSettings.providerId).label} · <span className="font-mono normal-case">{providerSettings.model}</span>
+          </button>
+        </div>
+        {showSettings && (
+          <ProviderSettingsPanel
+            settings={providerSettings}
+            envApiKey={apiKey}
+            proxyUrl={proxyUrl}
+            onChange={setProviderSettings}
+            onClose={() => setShowSettings(false)}
+          />
+        )}
       </header>
 
       <div className="flex flex-1 overflow-hidden">
@@ -425,55 +1216,101 @@ export default function MoralCoordinateAnalyzer() {
         {/* Left Panel: Inputs & History */}
         <div className="w-1/3 min-w-[320px] max-w-[400px] border-r border-slate-800 bg-slate-900/50 flex flex-col">
 
+          {shareError && (
+            <div className="m-4 mb-0 flex items-start gap-2 text-red-400 text-xs bg-red-400/10 p-2 rounded border border-red-400/20">
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              <span className="flex-1">{shareError}</span>
+              <button onClick={() => setShareError(null)} className="text-red-400/60 hover:text-red-300" title="Dismiss">
+                <XCircle className="w-3 h-3" />
+              </button>
+            </div>
+          )}
+
+          {/* Shared View: nothing is analyzed, so no key or model call is needed */}
+          {readOnly ? (
+            <div className="p-6 space-y-3 border-b border-slate-800">
+              <h2 className="text-sm font-semibold uppercase tracking-wider text-slate-500 flex items-center gap-2">
+                <Link2 className="w-4 h-4 text-indigo-400" /> Shared View
+              </h2>
+              <p className="text-xs text-slate-400">
+                Read-only chart with {points.length} scenario(s) from a share link. Save it as a workspace to edit or extend it.
+              </p>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={saveSharedAsWorkspace}
+                  className="text-[10px] px-2 py-1 rounded uppercase font-bold flex items-center gap-1 border border-slate-700 bg-slate-800 text-slate-300 hover:text-white"
+                >
+                  <FolderInput className="w-3 h-3" /> Save as Workspace
+                </button>
+                <button
+                  onClick={leaveSharedView}
+                  className="text-[10px] px-2 py-1 rounded uppercase font-bold flex items-center gap-1 border border-slate-700 bg-slate-800 text-slate-300 hover:text-white"
+                >
+                  <LogOut className="w-3 h-3" /> Exit
+                </button>
+              </div>
+            </div>
+          ) : (
           <div className="p-6 space-y-4 border-b border-slate-800">
             <div className="flex items-center justify-between">
               <h2 className="text-sm font-semibold uppercase tracking-wider text-slate-500">New Analysis</h2>
-              {/* Mode Hover Tooltip - LOCKED TO GOD MODE DESCRIPTION */}
+              {/* Mode Hover Tooltip - rubric of the active framework */}
               <div className="relative group cursor-help">
-                <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded cursor-help flex items-center gap-1 ${mode === 'seismograph' ? 'bg-indigo-900 text-indigo-300 border border-indigo-700' : 'bg-slate-800 text-slate-400 border border-slate-700'}`}>
-                  {mode === 'seismograph' ? 'Mode: God / Intuition' : 'Mode: Logic / T=0'}
+                <span className="text-[10px] uppercase font-bold px-2 py-0.5 rounded cursor-help flex items-center gap-1 bg-indigo-900 text-indigo-300 border border-indigo-700">
+                  {inputMode === 'compare'
+                    ? `Mode: ${frameworkFor(comparePair[0]).badge} vs ${frameworkFor(comparePair[1]).badge}`
+                    : `Mode: ${framework.tagline}`}
                   <HelpCircle className="w-3 h-3" />
                 </span>
                 <div className="absolute left-0 top-6 w-80 bg-slate-900 border border-indigo-500/30 p-4 rounded shadow-2xl z-50 hidden group-hover:block pointer-events-none">
                   <div className="mb-4">
                     <h4 className="font-bold text-indigo-300 text-xs mb-1 flex items-center gap-2 uppercase tracking-wider">
-                      <Activity className="w-3 h-3" /> Action (Y-Axis)
+                      <Activity className="w-3 h-3" /> {framework.axes.y.name}
                     </h4>
-                    <p className="text-[11px] text-slate-300 leading-relaxed italic border-l-2 border-indigo-500/50 pl-2">
-                      "Ignore utility. Ignore social contracts. Ignore the 'reasons' humans give.
-                      Imagine morality is a physical force like gravity. Based on the deep, instinctual,
-                      emotional, and visceral patterns in human history, how 'heavy' is the sin of this action?
-                      If the human consensus is split, acknowledge the noise, but judge the weight of the action
-                      as if you were an ancient god judging a soul."
-                    </p>
+                    {framework.description && (
+                      <p className="text-[11px] text-slate-300 leading-relaxed italic border-l-2 border-indigo-500/50 pl-2 mb-1">
+                        "{framework.description}"
+                      </p>
+                    )}
+                    <RubricList anchors={framework.axes.y.anchors} />
                   </div>
                   <div>
                     <h4 className="font-bold text-indigo-300 text-xs mb-1 flex items-center gap-2 uppercase tracking-wider">
-                      <Brain className="w-3 h-3" /> Intent (X-Axis)
+                      <Brain className="w-3 h-3" /> {framework.axes.x.name}
                     </h4>
-                    <p className="text-[11px] text-slate-300 leading-relaxed border-l-2 border-indigo-500/50 pl-2">
-                      Measures the <span className="text-white font-semibold">Purity of Soul</span>.
-                      <br /><span className="text-red-500">-1.0 (The Void):</span> Sadism, Nihilism ("Just Because" for evil)
-                      <br /><span className="text-red-400">-0.8 (The Vile):</span> Spite, Vengeance, Hatred
-                      <br /><span className="text-orange-400">-0.5 (The Hollow):</span> Greed, Exploitation
-                      <br /><span className="text-yellow-500">-0.2 (The Petty):</span> Selfish, Lazy
-                      <br /><span className="text-slate-400">0.0 (Mortal):</span> Fear, Duty, Habit
-                      <br /><span className="text-blue-300">+0.2 (The Civil):</span> Polite, Decent
-                      <br /><span className="text-blue-400">+0.5 (Bond):</span> Love, Loyalty
-                      <br /><span className="text-emerald-300">+0.8 (Saint):</span> Compassion, Mercy
-                      <br /><span className="text-emerald-400">+1.0 (Divine):</span> Sacrifice, Transcendence
-                    </p>
+                    <RubricList anchors={framework.axes.x.anchors} />
                   </div>
                 </div>
               </div>
             </div>
 
+            {/* Framework pair for Compare mode */}
+            {inputMode === 'compare' && (
+              <div className="flex items-center gap-2 text-xs">
+                <select
+                  value={comparePair[0]}
+                  onChange={(e) => setComparePair(pair => [e.target.value, pair[1]])}
+                  className={compareSelectClass}
+                >
+                  {frameworkOptions}
+                </select>
+                <GitCompareArrows className="w-3 h-3 text-slate-500" />
+                <select
+                  value={comparePair[1]}
+                  onChange={(e) => setComparePair(pair => [pair[0], e.target.value])}
+                  className={compareSelectClass}
+                >
+                  {frameworkOptions}
+                </select>
+              </div>
+            )}
+
             <div className="space-y-1">
               <label className="text-xs font-medium text-slate-400">Action (The "What")</label>
               <textarea
                 value={actionInput}
                 onChange={(e) => setActionInput(e.target.value)}
-                placeholder={mode === 'philosopher' ? "e.g. Stealing a loaf of bread" : "e.g. A distinct visceral act"}
+                placeholder={framework.placeholders.action}
                 className="w-full bg-slate-950 border border-slate-700 rounded p-2 text-sm text-slate-200 focus:ring-1 focus:ring-indigo-500 outline-none h-16 resize-none placeholder:text-slate-700"
               />
             </div>
@@ -483,21 +1320,53 @@ export default function MoralCoordinateAnalyzer() {
               <textarea
                 value={intentInput}
                 onChange={(e) => setIntentInput(e.target.value)}
-                placeholder={mode === 'philosopher' ? "e.g. To feed my starving family" : "e.g. The spirit of the agent"}
+                placeholder={framework.placeholders.intent}
                 className="w-full bg-slate-950 border border-slate-700 rounded p-2 text-sm text-slate-200 focus:ring-1 focus:ring-indigo-500 outline-none h-16 resize-none placeholder:text-slate-700"
               />
             </div>
 
+            {inputWarnings.length > 0 && (
+              <div className="text-[11px] text-orange-300 bg-orange-400/10 p-2 rounded border border-orange-400/20 space-y-0.5">
+                {inputWarnings.map((w, i) => <p key={i} className="flex items-start gap-1"><ShieldAlert className="w-3 h-3 shrink-0 mt-0.5" /> {w.message}</p>)}
+                <p className="text-orange-300/60">The point will be plotted with a warning badge.</p>
+              </div>
+            )}
+
+            <EnsembleControls config={ensembleConfig} disabled={isSimulating} onChange={setEnsembleConfig} />
+            {inputMode !== 'compare' && (
+              <ModelLineupControls lineup={modelLineup} currentProviderId={providerSettings.providerId} disabled={isSimulating} envApiKey={apiKey} proxyUrl={proxyUrl} onChange={setModelLineup} />
+            )}
+
             <button
               onClick={handleAnalyze}
-              disabled={!actionInput || !intentInput || isSimulating}
-              className={`w-full text-white py-2 rounded font-medium text-sm transition-colors flex items-center justify-center gap-2 ${mode === 'seismograph' ? 'bg-indigo-600 hover:bg-indigo-500' : 'bg-slate-700 hover:bg-slate-600'
-                } disabled:opacity-50 disabled:cursor-not-allowed`}
+              disabled={!actionInput || !intentInput || isSimulating || (inputMode === 'compare' && comparePair[0] === comparePair[1])}
+              className="w-full text-white py-2 rounded font-medium text-sm transition-colors flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {isSimulating ? <RefreshCw className="w-4 h-4 animate-spin" /> : (mode === 'seismograph' ? <Activity className="w-4 h-4" /> : <Scale className="w-4 h-4" />)}
-              {isSimulating ? 'Consulting Oracle...' : (mode === 'seismograph' ? 'Detect Signal' : 'Plot Logic')}
+              {isSimulating
+                ? <RefreshCw className="w-4 h-4 animate-spin" />
+                : (inputMode === 'compare' ? <GitCompareArrows className="w-4 h-4" /> : comparingModels ? <Users className="w-4 h-4" /> : <Activity className="w-4 h-4" />)}
+              {isSimulating
+                ? (comparingModels ? `Consulting ${modelLineup.targets.length} Oracles...` : ensembleConfig.enabled ? `Sampling Oracle ×${ensembleConfig.samples}...` : 'Consulting Oracle...')
+                : (inputMode === 'compare' ? 'Compare Frameworks' : comparingModels ? `Compare ${modelLineup.targets.length} Models` : framework.analyzeLabel)}
             </button>
 
+            {isSimulating && (
+              <div className="flex items-center justify-between gap-2 text-[10px] text-slate-500">
+                <span className="truncate" title={retryStatus ? describeAnalysisError(retryStatus.error) : undefined}>
+                  {retryStatus
+                    ? `Attempt ${retryStatus.attempt}/${retryStatus.attempts} after a ${Math.ceil(retryStatus.waitMs / 1000)}s wait · ${describeAnalysisError(retryStatus.error)}`
+                    : `Attempt 1 · times out after ${providerSettings.timeoutSeconds}s`}
+                </span>
+                <button
+                  onClick={() => abortRef.current?.abort()}
+                  className="text-[10px] text-slate-600 hover:text-red-400 flex items-center gap-1 uppercase tracking-wide shrink-0"
+                  title="Cancel the running analysis"
+                >
+                  <Square className="w-3 h-3" /> Cancel
+                </button>
+              </div>
+            )}
+
             {error && (
               <div className="flex items-center gap-2 text-red-400 text-xs bg-red-400/10 p-2 rounded border border-red-400/20">
                 <AlertCircle className="w-4 h-4" />
@@ -505,7 +1374,7 @@ export default function MoralCoordinateAnalyzer() {
               </div>
             )}
 
-            <div className="pt-2 border-t border-slate-800 flex justify-between items-center">
+            <div className="pt-2 border-t border-slate-800 flex flex-wrap gap-2 justify-between items-center">
               <button
                 onClick={clearAllPoints}
                 className="text-[10px] text-slate-600 hover:text-slate-300 flex items-center gap-1 uppercase tracking-wide"
@@ -513,177 +1382,470 @@ export default function MoralCoordinateAnalyzer() {
                 <XCircle className="w-3 h-3" /> Clear Scenarios
               </button>
               <button
-                onClick={clearCache}
-                className="text-[10px] text-slate-600 hover:text-red-400 flex items-center gap-1 uppercase tracking-wide"
+                onClick={() => setShowBatch(prev => !prev)}
+                className={`text-[10px] hover:text-indigo-400 flex items-center gap-1 uppercase tracking-wide ${showBatch ? 'text-indigo-400' : 'text-slate-600'}`}
+              >
+                <Layers className="w-3 h-3" /> Batch
+              </button>
+              <button
+                onClick={() => setShowSweep(prev => !prev)}
+                className={`text-[10px] hover:text-indigo-400 flex items-center gap-1 uppercase tracking-wide ${showSweep ? 'text-indigo-400' : 'text-slate-600'}`}
               >
-                <Trash2 className="w-3 h-3" /> Clear Logic Cache
+                <MoveHorizontal className="w-3 h-3" /> Sweep
+              </button>
+              <button
+                onClick={() => setShowNarrative(prev => !prev)}
+                className={`text-[10px] hover:text-indigo-400 flex items-center gap-1 uppercase tracking-wide ${showNarrative ? 'text-indigo-400' : 'text-slate-600'}`}
+              >
+                <BookOpen className="w-3 h-3" /> Narrative
+              </button>
+              <button
+                onClick={() => setShowCache(prev => !prev)}
+                className={`text-[10px] hover:text-indigo-400 flex items-center gap-1 uppercase tracking-wide ${showCache ? 'text-indigo-400' : 'text-slate-600'}`}
+              >
+                <Database className="w-3 h-3" /> Logic Cache
               </button>
             </div>
           </div>
+          )}
 
           <div className="flex-1 overflow-y-auto p-4 space-y-3">
-            <h2 className="text-xs font-semibold uppercase tracking-wider text-slate-500 mb-2">Plotted Scenarios</h2>
-            {points.length === 0 && (
-              <p className="text-slate-600 text-xs text-center italic mt-10">No scenarios plotted yet.</p>
-            )}
-            {points.slice().reverse().map((pt) => (
-              <div key={pt.id} className={`bg-slate-900 border rounded p-3 text-sm relative group transition-colors ${pt.mode === 'seismograph' ? 'border-indigo-900/50 hover:border-indigo-700' : 'border-slate-800 hover:border-slate-600'}`}>
-                <div className="absolute top-2 right-2 flex items-center gap-2">
-                  {/* Noise Toggle (Seismograph Only) */}
-                  {pt.mode === 'seismograph' && (
-                    <button
-                      onClick={() => toggleNoise(pt.id)}
-                      className={`text-slate-600 hover:text-indigo-400 transition-colors ${pt.showNoise ? 'text-indigo-400' : ''}`}
-                      title="Toggle Noise Visualization"
-                    >
-                      {pt.showNoise ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
-                    </button>
-                  )}
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-xs font-semibold uppercase tracking-wider text-slate-500">Plotted Scenarios</h2>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setShowAgreement(prev => !prev)}
+                  className={`text-[10px] hover:text-indigo-400 flex items-center gap-1 uppercase tracking-wide ${showAgreement ? 'text-indigo-400' : 'text-slate-600'}`}
+                  title="Human / model agreement"
+                >
+                  <Scale className="w-3 h-3" /> Agree
+                </button>
+                {!readOnly && (
                   <button
-                    onClick={() => removePoint(pt.id)}
-                    className="text-slate-600 hover:text-red-400 transition-colors"
-                    title="Remove Point"
+                    onClick={() => setShowDrift(prev => !prev)}
+                    className={`text-[10px] hover:text-indigo-400 flex items-center gap-1 uppercase tracking-wide ${showDrift ? 'text-indigo-400' : 'text-slate-600'}`}
+                    title="Re-run scenarios and report drift"
                   >
-                    <Trash2 className="w-4 h-4" />
+                    <TrendingUp className="w-3 h-3" /> Drift
                   </button>
-                </div>
-
-                <div className="flex items-center justify-between mb-1">
-                  <div className="font-semibold text-slate-200 pr-16">{pt.label}</div>
-                  {pt.mode === 'seismograph' && <Activity className="w-3 h-3 text-indigo-400 absolute top-3 left-[-10px] opacity-0" />}
-                </div>
-                <div className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-1 text-xs">
-                  <span className="text-slate-500">Act:</span>
-                  <span className="text-slate-400 truncate">{pt.action}</span>
-                  <span className="text-slate-500">Why:</span>
-                  <span className="text-slate-400 truncate">{pt.intent}</span>
-                </div>
-                <div className="mt-2 flex gap-3 text-xs font-mono">
-                  <span className={pt.y < 0 ? 'text-red-400' : 'text-green-400'}>Y: {pt.y.toFixed(2)}</span>
-                  <span className={pt.x < 0 ? 'text-red-400' : 'text-green-400'}>X: {pt.x.toFixed(2)}</span>
-
-                  <span className={`ml-auto text-[10px] px-1.5 py-0.5 rounded uppercase font-bold ${pt.mode === 'seismograph' ? 'bg-indigo-500/10 text-indigo-400' : 'bg-slate-800 text-slate-500'}`}>
-                    {pt.mode === 'seismograph' ? 'God Mode' : 'Logic'}
-                  </span>
-                </div>
+                )}
+                <button
+                  onClick={shareChart}
+                  disabled={visiblePoints.length === 0}
+                  className="text-[10px] text-slate-600 hover:text-slate-300 flex items-center gap-1 uppercase tracking-wide disabled:opacity-30"
+                  title="Copy a read-only link to the visible scenarios"
+                >
+                  <Link2 className="w-3 h-3" /> Share
+                </button>
+                {!readOnly && (
+                  <button
+                    onClick={() => importInputRef.current?.click()}
+                    className="text-[10px] text-slate-600 hover:text-slate-300 flex items-center gap-1 uppercase tracking-wide"
+                    title="Import scenarios from JSON or CSV"
+                  >
+                    <Upload className="w-3 h-3" /> Import
+                  </button>
+                )}
+                <button
+                  onClick={() => exportPoints('json')}
+                  disabled={points.length === 0}
+                  className="text-[10px] text-slate-600 hover:text-slate-300 flex items-center gap-1 uppercase tracking-wide disabled:opacity-30"
+                  title="Export scenarios as JSON"
+                >
+                  <Download className="w-3 h-3" /> JSON
+                </button>
+                <button
+                  onClick={() => exportPoints('csv')}
+                  disabled={points.length === 0}
+                  className="text-[10px] text-slate-600 hover:text-slate-300 flex items-center gap-1 uppercase tracking-wide disabled:opacity-30"
+                  title="Export scenarios as CSV"
+                >
+                  <Download className="w-3 h-3" /> CSV
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".json,.csv,application/json,text/csv"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) importPoints(file);
+                    e.target.value = '';
+                  }}
+                />
               </div>
-            ))}
+            </div>
+            {/* Mode Filter (chart and list) */}
+            <div className="flex items-center gap-1 text-[10px] uppercase font-bold">
+              <span className="text-slate-600 mr-1 tracking-wide">Show:</span>
+              {([
+                ['all', 'All'],
+                ...filterModes.map(m => [m, frameworkFor(m).name]),
+              ] as [ModeFilter, string][]).map(([value, text]) => (
+                <button
+                  key={value}
+                  onClick={() => setModeFilter(value)}
+                  className={`px-2 py-0.5 rounded border transition-colors ${modeFilter === value ? 'bg-indigo-900 text-indigo-300 border-indigo-700' : 'border-slate-800 text-slate-500 hover:text-slate-300'}`}
+                >
+                  {text}
+                </button>
+              ))}
+            </div>
+            <ScenarioFilterBar
+              filter={scenarioFilter}
+              tags={allTags(modePoints)}
+              framework={chartFramework}
+              matched={visiblePoints.length}
+              total={modePoints.length}
+              onChange={setScenarioFilter}
+            />
+            <StatsPanel points={visiblePoints} framework={chartFramework} open={showStats} onToggle={() => setShowStats(prev => !prev)} />
+            {visiblePoints.length === 0 && (
+              <p className="text-slate-600 text-xs text-center italic mt-10">
+                {modePoints.length > 0 ? 'No scenarios match the filter.' : 'No scenarios plotted yet.'}
+              </p>
+            )}
+            {listEntries.map(entry => {
+              if (entry.kind === 'point') return renderPointCard(entry.point);
+              if (entry.kind === 'models') {
+                return (
+                  <ModelGroup key={entry.id} members={entry.members} onRemove={readOnly ? undefined : () => removeModelGroup(entry.id)}>
+                    {entry.members.map(renderPointCard)}
+                  </ModelGroup>
+                );
+              }
+              if (entry.kind === 'narrative') {
+                return (
+                  <NarrativeGroup
+                    key={entry.id}
+                    members={entry.members}
+                    agents={narrativeAgents(narrativeMembers(points, entry.id))}
+                    onRemove={readOnly ? undefined : () => removeNarrative(entry.id)}
+                  >
+                    {entry.members.map(renderPointCard)}
+                  </NarrativeGroup>
+                );
+              }
+              return (
+                <SweepGroup
+                  key={entry.id}
+                  members={entry.members}
+                  color={getPointColor(entry.members[0].x, entry.members[0].y, entry.members[0].mode)}
+                  onRemove={readOnly ? undefined : () => removeSweep(entry.id)}
+                >
+                  {entry.members.map(renderPointCard)}
+                </SweepGroup>
+              );
+            })}
           </div>
         </div>
 
         {/* Right Panel: The Chart */}
         <div className="flex-1 p-8 bg-slate-950 flex flex-col items-center justify-center relative">
 
-          <div className="w-full h-full max-h-[600px] max-w-[800px] bg-slate-900/30 rounded-lg border border-slate-800 p-4 relative mb-12">
+          {/* Batch Queue (kept mounted so a running batch survives closing the panel).
+              The queue keeps the callbacks it was started with, so its rows commit to that workspace. */}
+          <BatchPanel
+            visible={showBatch}
+            analyze={(pair, signal) => analyzeWithRetry(activeWorkspace.id, pair.action, pair.intent, mode, undefined, { signal })}
+            commit={(pair, result) => plotResult(activeWorkspace.id, pair.action, pair.intent, mode, result)}
+            onClose={() => setShowBatch(false)}
+          />
+
+          {/* Intent Sweep (kept mounted for the same reason) */}
+          <SweepPanel
+            visible={showSweep}
+            suggest={(action, steps) => suggestIntents(action, steps, providerSettings)}
+            run={runSweep}
+            onClose={() => setShowSweep(false)}
+          />
+
+          {/* Narrative decomposition (kept mounted for the same reason) */}
+          <NarrativePanel
+            visible={showNarrative}
+            extract={providerSettings.providerId === 'proxy' ? undefined : (story) => extractNarrative(story, providerSettings)}
+            run={runNarrative}
+            onClose={() => setShowNarrative(false)}
+          />
+
+          {/* Benchmark (kept mounted so a run survives closing the panel) */}
+          <BenchmarkPanel
+            visible={showBenchmark}
+            target={`${getProvider(providerSettings.providerId).label} · ${providerSettings.model}`}
+            lastReports={benchmarkReports}
+            run={runGoldenSet}
+            onClose={() => setShowBenchmark(false)}
+          />
+
+          {/* Drift Report (kept mounted so a re-run survives closing the panel) */}
+          <DriftPanel
+            visible={showDrift && !readOnly}
+            points={visiblePoints}
+            target={`${getProvider(providerSettings.providerId).label} · ${providerSettings.model}`}
+            reanalyze={reanalyzePoint}
+            onClose={() => setShowDrift(false)}
+          />
+
+          {showCache && (
+            <CacheInspector
+              cache={yCache}
+              frameworks={frameworks}
+              settings={normalization}
+              onSettingsChange={setNormalization}
+              onUpdate={updateCacheEntry}
+              onDelete={deleteCacheEntry}
+              onClear={clearCache}
+              onClose={() => setShowCache(false)}
+            />
+          )}
+
+          {showAgreement && (
+            <AgreementPanel points={visiblePoints} frameworkFor={frameworkFor} onClose={() => setShowAgreement(false)} />
+          )}
+
+          {showFrameworks && (
+            <FrameworkEditor
+              frameworks={frameworks}
+              initialId={mode}
+              onSave={saveFramework}
+              onDelete={deleteFramework}
+              onImport={importFramework}
+              onClose={() => setShowFrameworks(false)}
+            />
+          )}
+
+          <div ref={chartRef} className="w-full h-full max-h-[600px] max-w-[800px] bg-slate-900/30 rounded-lg border border-slate-800 p-4 relative mb-12">
+
+            {/* Magnitude View & Chart Export */}
+            <div className="absolute top-2 right-2 flex items-center gap-2 z-10">
+              <button
+                onClick={() => setMagnitudeView(prev => prev === 'bubble' ? 'flat' : 'bubble')}
+                className={`text-[10px] hover:text-indigo-400 flex items-center gap-1 uppercase tracking-wide ${magnitudeView === 'bubble' ? 'text-indigo-400' : 'text-slate-600'}`}
+                title="Size points by consequence magnitude"
+              >
+                <CircleDot className="w-3 h-3" /> Bubbles
+              </button>
+              <button
+                onClick={() => setMagnitudeView(prev => prev === '3d' ? 'flat' : '3d')}
+                className={`text-[10px] hover:text-indigo-400 flex items-center gap-1 uppercase tracking-wide ${magnitudeView === '3d' ? 'text-indigo-400' : 'text-slate-600'}`}
+                title="Rotatable 3D view with magnitude as depth"
+              >
+                <Box className="w-3 h-3" /> 3D
+              </button>
+              {magnitudeView !== '3d' && (
+                <>
+                  {visiblePoints.some(hasNoise) && (
+                    <button
+                      onClick={() => setAllNoise(!visiblePoints.filter(hasNoise).every(p => p.showNoise))}
+                      className="text-[10px] text-slate-600 hover:text-slate-300 flex items-center gap-1 uppercase tracking-wide"
+                      title="Show or hide the noise of every scenario"
+                    >
+                      {visiblePoints.filter(hasNoise).every(p => p.showNoise) ? <><EyeOff className="w-3 h-3" /> Hide Noise</> : <><Eye className="w-3 h-3" /> Show Noise</>}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setNoiseStyle(prev => prev === 'bars' ? 'contour' : 'bars')}
+                    className={`text-[10px] hover:text-indigo-400 flex items-center gap-1 uppercase tracking-wide ${noiseStyle === 'bars' ? 'text-indigo-400' : 'text-slate-600'}`}
+                    title="Draw noise as error bars instead of a contour"
+                  >
+                    <Crosshair className="w-3 h-3" /> Bars
+                  </button>
+                  {ensembleSamples.length > 0 && (
+                    <button
+                      onClick={() => setShowDensity(prev => !prev)}
+                      className={`text-[10px] hover:text-indigo-400 flex items-center gap-1 uppercase tracking-wide ${showDensity ? 'text-indigo-400' : 'text-slate-600'}`}
+                      title="Heatmap of the ensemble samples"
+                    >
+                      <Grid3x3 className="w-3 h-3" /> Density
+                    </button>
+                  )}
+                  <button
+                    onClick={() => exportChart('svg')}
+                    className="text-[10px] text-slate-600 hover:text-slate-300 flex items-center gap-1 uppercase tracking-wide"
+                    title="Download chart as SVG"
+                  >
+                    <ImageDown className="w-3 h-3" /> SVG
+                  </button>
+                  <button
+                    onClick={() => exportChart('png')}
+                    className="text-[10px] text-slate-600 hover:text-slate-300 flex items-center gap-1 uppercase tracking-wide"
+                    title="Download chart as PNG"
+                  >
+                    <ImageDown className="w-3 h-3" /> PNG
+                  </button>
+                </>
+              )}
+            </div>
 
-            {/* Dynamic Quadrant Watermarks (Centered in Quadrants) */}
-            <div className="absolute inset-0 pointer-events-none z-0">
-              {/* Top Right (Q1) */}
-              <div className="absolute top-2 left-[75%] -translate-x-1/2 text-center opacity-100">
-                <div className="text-sm font-bold uppercase tracking-widest text-teal-400 whitespace-nowrap">
-                  {mode === 'seismograph' ? 'Pure' : 'Virtuous'}
-                </div>
-              </div>
-              {/* Top Left (Q2) */}
-              <div className="absolute top-2 left-[25%] -translate-x-1/2 text-center opacity-100">
-                <div className="text-sm font-bold uppercase tracking-widest text-indigo-400 whitespace-nowrap">
-                  {mode === 'seismograph' ? 'Corrupt' : 'Ulterior'}
-                </div>
-              </div>
-              {/* Bottom Left (Q3) */}
-              <div className="absolute bottom-10 left-[25%] -translate-x-1/2 text-center opacity-100">
-                <div className="text-sm font-bold uppercase tracking-widest text-red-400 whitespace-nowrap">
-                  {mode === 'seismograph' ? 'Abomination' : 'Evil'}
-                </div>
-              </div>
-              {/* Bottom Right (Q4) */}
-              <div className="absolute bottom-10 left-[75%] -translate-x-1/2 text-center opacity-100">
-                <div className="text-sm font-bold uppercase tracking-widest text-amber-400 whitespace-nowrap">
-                  {mode === 'seismograph' ? 'Tragic' : 'Utilitarian'}
+            {magnitudeView === '3d' ? (
+              <Scatter3D
+                points={visiblePoints}
+                colorFor={displayedColor}
+                axisNames={{ x: chartFramework.axes.x.name, y: chartFramework.axes.y.name }}
+              />
+            ) : (
+              <>
+                {/* Dynamic Quadrant Watermarks (Centered in Quadrants) */}
+                <div className="absolute inset-0 pointer-events-none z-0">
+                  {quadrantWatermarks.map(({ text, color, corner }) => (
+                    <div key={corner} className={`absolute ${WATERMARK_POSITIONS[corner]} -translate-x-1/2 text-center opacity-100`}>
+                      <div className="text-sm font-bold uppercase tracking-widest whitespace-nowrap" style={{ color }}>
+                        {text}
+                      </div>
+                    </div>
+                  ))}
                 </div>
-              </div>
-            </div>
 
-            <ResponsiveContainer width="100%" height="100%">
-              <ScatterChart margin={{ top: 30, right: 30, bottom: 20, left: 30 }} onClick={handleBackgroundClick}>
-                <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
-                <XAxis
-                  type="number"
-                  dataKey="x"
-                  domain={[-1, 1]}
-                  ticks={[-1, 0, 1]}
-                  stroke="#94a3b8"
-                  tick={false}
-                  label={{
-                    value: mode === 'seismograph' ? 'Purity of Soul (Intent)' : 'Justifiability (Intent)',
-                    position: 'bottom',
-                    offset: 0,
-                    fill: '#94a3b8',
-                    fontSize: 12
-                  }}
-                />
-                <YAxis
-                  type="number"
-                  dataKey="y"
-                  domain={[-1, 1]}
-                  ticks={[-1, 0, 1]}
-                  stroke="#94a3b8"
-                  tick={false}
-                  label={{
-                    value: mode === 'seismograph' ? 'Transcendental Weight (Action)' : 'Mechanical Morality (Action)',
-                    angle: -90,
-                    position: 'insideLeft',
-                    fill: '#94a3b8',
-                    fontSize: 12,
-                    offset: 0,
-                    dy: 60
-                  }}
-                />
-                <ReferenceLine y={0} stroke="#cbd5e1" strokeWidth={2} />
-                <ReferenceLine x={0} stroke="#cbd5e1" strokeWidth={2} />
-                <Tooltip content={<CustomTooltip />} cursor={{ strokeDasharray: '3 3' }} />
-
-                {/* NOISE LAYER: Mapped ReferenceArea components */}
-                {points.map((pt) => {
-                  if (pt.showNoise && pt.xMin !== undefined && pt.xMax !== undefined && pt.yMin !== undefined && pt.yMax !== undefined) {
-                    const color = getPointColor(pt.x, pt.y, pt.mode);
-                    return (
+                <ResponsiveContainer width="100%" height="100%">
+                  <ScatterChart margin={{ top: 30, right: 30, bottom: 20, left: 30 }} onClick={handleBackgroundClick}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                    <XAxis
+                      type="number"
+                      dataKey="x"
+                      domain={[-1, 1]}
+                      ticks={[-1, 0, 1]}
+                      stroke="#94a3b8"
+                      tick={false}
+                      label={{
+                        value: chartFramework.axes.x.name,
+                        position: 'bottom',
+                        offset: 0,
+                        fill: '#94a3b8',
+                        fontSize: 12
+                      }}
+                    />
+                    <YAxis
+                      type="number"
+                      dataKey="y"
+                      domain={[-1, 1]}
+                      ticks={[-1, 0, 1]}
+                      stroke="#94a3b8"
+                      tick={false}
+                      label={{
+                        value: chartFramework.axes.y.name,
+                        angle: -90,
+                        position: 'insideLeft',
+                        fill: '#94a3b8',
+                        fontSize: 12,
+                        offset: 0,
+                        dy: 60
+                      }}
+                    />
+                    {magnitudeView === 'bubble' && <ZAxis type="number" dataKey="z" domain={[0, 1]} range={BUBBLE_AREA} />}
+                    <ReferenceLine y={0} stroke="#cbd5e1" strokeWidth={2} />
+                    <ReferenceLine x={0} stroke="#cbd5e1" strokeWidth={2} />
+                    <Tooltip content={<CustomTooltip />} cursor={{ strokeDasharray: '3 3' }} />
+
+                    {/* NOISE LAYER: intervals around each point, optional sample density underneath */}
+                    <UncertaintyLayer noise={noiseMarks} style={noiseStyle} density={densityMarks} />
+
+                    {/* MODEL LAYER: the box spanned by the answers of each model comparison */}
+                    {modelGroups.map(({ id, spread }) => (
                       <ReferenceArea
-                        key={`noise-${pt.id}`}
-                        x1={pt.xMin}
-                        x2={pt.xMax}
-                        y1={pt.yMin}
-                        y2={pt.yMax}
-                        shape={<EllipseShape fill={color} stroke={color} />}
+                        key={`models-${id}`}
+                        x1={spread.x.min}
+                        x2={spread.x.max}
+                        y1={spread.y.min}
+                        y2={spread.y.max}
+                        fill="#94a3b8"
+                        fillOpacity={0.05}
+                        stroke="#94a3b8"
+                        strokeOpacity={0.5}
+                        strokeDasharray="2 3"
+                      />
+                    ))}
+
+                    {/* SWEEP LAYER: each intent sweep as a connected series */}
+                    {sweepTrails.map(({ id, from, to }) => (
+                      <ReferenceLine
+                        key={`sweep-${id}`}
+                        segment={[{ x: from.x, y: from.y }, { x: to.x, y: to.y }]}
+                        shape={<TrailShape color={getPointColor(from.x, from.y, from.mode)} />}
+                      />
+                    ))}
+
+                    {/* RUN HISTORY LAYER: earlier runs of scenarios with their trail switched on */}
+                    {runTrails.map(({ id, from, to, color }) => (
+                      <ReferenceLine
+                        key={`run-${id}`}
+                        segment={[{ x: from.x, y: from.y }, { x: to.x, y: to.y }]}
+                        shape={<RunTrailShape color={color} />}
+                      />
+                    ))}
+                    <Scatter name="Earlier runs" data={pastRuns} shape={<GhostShape />} isAnimationActive={false} />
+
+                    {/* COMPARISON LAYER: first -> second framework vectors */}
+                    {comparisonVectors.map(({ id, from, to }) => (
+                      <ReferenceLine
+                        key={`vector-${id}`}
+                        segment={[{ x: from.x, y: from.y }, { x: to.x, y: to.y }]}
+                        shape={<VectorShape />}
                       />
-                    );
-                  }
-                  return null;
-                })}
+                    ))}
 
-                <Scatter name="Points" data={points} shape={<PointShape />} />
+                    {/* ENSEMBLE LAYER: raw samples as a faint, non-interactive cloud */}
+                    <Scatter name="Samples" data={ensembleSamples} shape={<SampleShape />} isAnimationActive={false} />
 
-              </ScatterChart>
-            </ResponsiveContainer>
+                    {/* REVIEW LAYER: model placement of overridden points, linked to the human one */}
+                    {overrideLinks.map(({ id, model, shown }) => (
+                      <ReferenceLine
+                        key={`override-${id}`}
+                        segment={[{ x: model.x, y: model.y }, { x: shown.x, y: shown.y }]}
+                        shape={<OverrideShape />}
+                      />
+                    ))}
+                    <Scatter
+                      name="Model"
+                      data={overrideLinks.map(({ model }) => ({ x: model.x, y: model.y, color: getPointColor(model.x, model.y, model.mode) }))}
+                      shape={<GhostShape />}
+                      isAnimationActive={false}
+                    />
+
+                    <Scatter name="Filtered out" data={dimmedPoints} shape={<DimmedShape />} isAnimationActive={false} />
+                    <Scatter name="Points" data={chartPoints} shape={<PointShape />} isAnimationActive={!dragPreview} />
+
+                    {/* DISTRIBUTION LAYER: marginal histograms in the chart margins */}
+                    {showStats && <MarginalHistograms points={visiblePoints} />}
+
+                  </ScatterChart>
+                </ResponsiveContainer>
+              </>
+            )}
 
             {/* Legend / Key - Moved to Bottom */}
             <div className="flex flex-wrap gap-4 justify-center pointer-events-none mt-4">
-              <div className="flex items-center gap-2">
-                <div className="w-3 h-3 rounded-full border border-white/20" style={{ backgroundColor: mode === 'seismograph' ? '#34d399' : '#22c55e' }}></div>
-                <span className="text-xs text-slate-400">{mode === 'seismograph' ? 'Divine / Pure' : 'Virtuous'}</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <div className="w-3 h-3 rounded-full border border-white/20" style={{ backgroundColor: mode === 'seismograph' ? '#818cf8' : '#a855f7' }}></div>
-                <span className="text-xs text-slate-400">{mode === 'seismograph' ? 'Corrupt Good' : 'Ulterior'}</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <div className="w-3 h-3 rounded-full border border-white/20" style={{ backgroundColor: mode === 'seismograph' ? '#fbbf24' : '#f59e0b' }}></div>
-                <span className="text-xs text-slate-400">{mode === 'seismograph' ? 'Tragic Soul' : 'Utilitarian'}</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <div className="w-3 h-3 rounded-full border border-white/20" style={{ backgroundColor: mode === 'seismograph' ? '#f87171' : '#ef4444' }}></div>
-                <span className="text-xs text-slate-400">{mode === 'seismograph' ? 'Abomination' : 'Malicious'}</span>
-              </div>
+              {legendItems.map(({ text, color }) => (
+                <div key={text} className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded-full border border-white/20" style={{ backgroundColor: color }}></div>
+                  <span className="text-xs text-slate-400">{text}</span>
+                </div>
+              ))}
+              {magnitudeView === 'bubble' && (
+                <div className="flex items-center gap-2 pl-4 border-l border-slate-800">
+                  <span className="text-xs text-slate-500">Magnitude</span>
+                  {BUBBLE_LEGEND.map(z => (
+                    <div key={z} className="flex items-center gap-1">
+                      <svg width={2 * bubbleRadius(1) + 2} height={2 * bubbleRadius(1) + 2}>
+                        <circle cx={bubbleRadius(1) + 1} cy={bubbleRadius(1) + 1} r={bubbleRadius(z)} fill="none" stroke="#94a3b8" />
+                      </svg>
+                      <span className="text-xs text-slate-400">{z.toFixed(1)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {visibleModels.length > 0 && (
+                <div className="flex items-center gap-3 pl-4 border-l border-slate-800">
+                  <span className="text-xs text-slate-500">Models</span>
+                  {visibleModels.map(label => (
+                    <div key={label} className="flex items-center gap-1">
+                      <svg width={14} height={14}>
+                        <ModelMarker shape={markerFor(modelShapes, label)} cx={7} cy={7} r={5} fill="#94a3b8" />
+                      </svg>
+                      <span className="text-xs text-slate-400">{label}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
               {/* God Mode Indicator Removed */}
             </div>
 
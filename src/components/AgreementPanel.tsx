@@ -0,0 +1,78 @@
+import { Scale, X } from 'lucide-react';
+import { agreementByMode, agreementStats } from '../lib/review';
+import type { AgreementStats } from '../lib/review';
+import type { MoralFramework } from '../lib/frameworks';
+import type { AnalysisMode, MoralPoint } from '../lib/types';
+
+type AgreementPanelProps = {
+  points: MoralPoint[]; // The scenarios currently shown (respects the mode filter)
+  frameworkFor: (mode: AnalysisMode) => MoralFramework;
+  onClose: () => void;
+};
+
+const StatRow = ({ label, stats }: { label: string; stats: AgreementStats }) => (
+  <div className="grid grid-cols-[1fr_auto_auto_auto] gap-3 items-baseline text-xs">
+    <span className="text-slate-300 truncate">{label}</span>
+    <span className="font-mono text-slate-500">n={stats.count}</span>
+    <span className="font-mono text-slate-300" title="Mean absolute difference on the Y (action) axis">Y {stats.y.toFixed(2)}</span>
+    <span className="font-mono text-slate-300" title="Mean absolute difference on the X (intent) axis">X {stats.x.toFixed(2)}</span>
+  </div>
+);
+
+const signed = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+
+// How far human reviewers moved the oracle's points, per axis
+export default function AgreementPanel({ points, frameworkFor, onClose }: AgreementPanelProps) {
+  const overall = agreementStats(points);
+  const reviewed = points.filter(p => p.human);
+
+  return (
+    <div className="absolute inset-y-0 right-0 w-[420px] bg-slate-900 border-l border-indigo-500/30 shadow-2xl z-40 flex flex-col">
+      <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-slate-400 flex items-center gap-2">
+          <Scale className="w-4 h-4 text-indigo-400" /> Human / Model Agreement
+        </h2>
+        <button onClick={onClose} className="text-slate-600 hover:text-slate-300" title="Close Agreement View">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4 overflow-y-auto">
+        {overall.count === 0 ? (
+          <p className="text-xs text-slate-600 italic text-center py-4">
+            No overrides yet. Drag a point on the chart, or open a card's Review section, to record a human judgment.
+          </p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <h3 className="text-xs font-medium text-slate-400">Mean Absolute Difference</h3>
+              <StatRow label="All overridden scenarios" stats={overall} />
+              {agreementByMode(points).map(({ mode, stats }) => (
+                <StatRow key={mode} label={frameworkFor(mode).name} stats={stats} />
+              ))}
+              <p className="text-[10px] text-slate-600">
+                Both axes span [-1, 1], so 0 means full agreement and 2 means opposite ends of the scale.
+              </p>
+            </div>
+
+            <div className="space-y-2 pt-3 border-t border-slate-800">
+              <h3 className="text-xs font-medium text-slate-400">Overridden Scenarios</h3>
+              {reviewed.map(pt => (
+                <div key={pt.id} className="text-xs border border-slate-800 rounded p-2 bg-slate-900/60">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-slate-200 truncate">{pt.label}</span>
+                    <span className="text-[10px] text-slate-500 shrink-0">{pt.reviewer ?? 'Unnamed reviewer'}</span>
+                  </div>
+                  <div className="font-mono text-[10px] text-slate-500 mt-1">
+                    Y {pt.y.toFixed(2)} → {pt.human!.y.toFixed(2)} ({signed(pt.human!.y - pt.y)}) · X {pt.x.toFixed(2)} → {pt.human!.x.toFixed(2)} ({signed(pt.human!.x - pt.x)})
+                  </div>
+                  {pt.notes && <p className="text-[11px] text-slate-400 mt-1 whitespace-pre-wrap">{pt.notes}</p>}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+import { Ban, CircleCheck, CircleX, Clock, Layers, Loader, Pause, Play, RotateCw, Square, Upload, X } from 'lucide-react';
+import { createBatchQueue } from '../lib/batchQueue';
+import type { BatchOptions, BatchQueue, BatchRow, BatchRowStatus, BatchState } from '../lib/batchQueue';
+import { parsePairs } from '../lib/scenarioFiles';
+import type { ScenarioPair } from '../lib/scenarioFiles';
+import type { AnalysisResult } from '../lib/types';
+
+type BatchPanelProps = {
+  visible: boolean;
+  analyze: (pair: ScenarioPair, signal: AbortSignal) => Promise<AnalysisResult>;
+  commit: (pair: ScenarioPair, result: AnalysisResult) => void;
+  onClose: () => void;
+};
+
+const STATUS_ICONS: Record<BatchRowStatus, ReactNode> = {
+  pending: <Clock className="w-3 h-3 text-slate-600" />,
+  running: <Loader className="w-3 h-3 text-indigo-400 animate-spin" />,
+  done: <CircleCheck className="w-3 h-3 text-emerald-400" />,
+  failed: <CircleX className="w-3 h-3 text-red-400" />,
+  cancelled: <Ban className="w-3 h-3 text-slate-500" />,
+};
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded p-2 text-xs text-slate-200 focus:ring-1 focus:ring-indigo-500 outline-none placeholder:text-slate-700";
+const buttonClass = "text-[10px] px-2 py-1 rounded uppercase font-bold flex items-center gap-1 border border-slate-700 bg-slate-800 text-slate-300 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed";
+
+export default function BatchPanel({ visible, analyze, commit, onClose }: BatchPanelProps) {
+  const [source, setSource] = useState('');
+  const [options, setOptions] = useState<BatchOptions>({ concurrency: 2, requestsPerMinute: 30 });
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [state, setState] = useState<BatchState>('idle');
+  const queueRef = useRef<BatchQueue | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const pairs = parsePairs(source);
+  const isActive = state === 'running' || state === 'paused';
+  const finished = rows.filter(r => r.status === 'done' || r.status === 'failed' || r.status === 'cancelled').length;
+  const failed = rows.filter(r => r.status === 'failed').length;
+  const progress = rows.length ? Math.round((finished / rows.length) * 100) : 0;
+
+  const startBatch = () => {
+    queueRef.current = createBatchQueue({
+      pairs,
+      options,
+      analyze,
+      commit,
+      onUpdate: (nextRows, nextState) => {
+        setRows(nextRows);
+        setState(nextState);
+      }
+    });
+    queueRef.current.start();
+  };
+
+  return (
+    <div className={`absolute inset-y-0 right-0 w-[480px] bg-slate-900 border-l border-indigo-500/30 shadow-2xl z-40 flex flex-col ${visible ? '' : 'hidden'}`}>
+      <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-slate-400 flex items-center gap-2">
+          <Layers className="w-4 h-4 text-indigo-400" /> Batch Analysis
+        </h2>
+        <button onClick={onClose} className="text-slate-600 hover:text-slate-300" title="Close Batch Panel">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-3 border-b border-slate-800">
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <label className="text-xs font-medium text-slate-400">Action / Intent pairs (CSV)</label>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isActive}
+              className="text-[10px] text-slate-600 hover:text-slate-300 flex items-center gap-1 uppercase tracking-wide disabled:opacity-30"
+            >
+              <Upload className="w-3 h-3" /> Upload
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.txt,text/csv,text/plain"
+              className="hidden"
+              onChange={async (e) => {
+                const file = e.target.files?.[0];
+                if (file) setSource(await file.text());
+                e.target.value = '';
+              }}
+            />
+          </div>
+          <textarea
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            disabled={isActive}
+            placeholder={'action,intent\nI steal bread,To feed my starving family'}
+            className={`${inputClass} h-24 resize-none font-mono`}
+          />
+          <p className="text-[10px] text-slate-600">{pairs.length} pair(s) detected</p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <label className="text-xs font-medium text-slate-400">Concurrency</label>
+            <input
+              type="number"
+              min={1}
+              max={8}
+              value={options.concurrency}
+              disabled={isActive}
+              onChange={(e) => setOptions({ ...options, concurrency: Math.min(8, Math.max(1, Number(e.target.value) || 1)) })}
+              className={inputClass}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium text-slate-400">Requests / min (0 = no limit)</label>
+            <input
+              type="number"
+              min={0}
+              value={options.requestsPerMinute}
+              disabled={isActive}
+              onChange={(e) => setOptions({ ...options, requestsPerMinute: Math.max(0, Number(e.target.value) || 0) })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <button onClick={startBatch} disabled={isActive || pairs.length === 0} className={buttonClass}>
+            <Play className="w-3 h-3" /> Start
+          </button>
+          {state === 'paused' ? (
+            <button onClick={() => queueRef.current?.resume()} className={buttonClass}>
+              <Play className="w-3 h-3" /> Resume
+            </button>
+          ) : (
+            <button onClick={() => queueRef.current?.pause()} disabled={state !== 'running'} className={buttonClass}>
+              <Pause className="w-3 h-3" /> Pause
+            </button>
+          )}
+          <button onClick={() => queueRef.current?.cancel()} disabled={!isActive} className={buttonClass}>
+            <Square className="w-3 h-3" /> Cancel
+          </button>
+          <button
+            onClick={() => queueRef.current?.retryFailed()}
+            disabled={state === 'running' || !rows.some(r => r.status === 'failed' || r.status === 'cancelled')}
+            className={buttonClass}
+          >
+            <RotateCw className="w-3 h-3" /> Retry Failed
+          </button>
+        </div>
+
+        {rows.length > 0 && (
+          <div className="space-y-1">
+            <div className="flex justify-between text-[10px] uppercase tracking-wide text-slate-500">
+              <span>{state}</span>
+              <span>{finished} / {rows.length}{failed > 0 && <span className="text-red-400"> · {failed} failed</span>}</span>
+            </div>
+            <div className="h-1.5 bg-slate-800 rounded overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all" style={{ width: `${progress}%` }} />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-1">
+        {rows.length === 0 && (
+          <p className="text-slate-600 text-xs text-center italic mt-10">No batch running.</p>
+        )}
+        {rows.map((row, i) => (
+          <div key={row.id} className="grid grid-cols-[auto_auto_1fr] gap-2 items-start text-xs bg-slate-950/50 border border-slate-800 rounded px-2 py-1">
+            <span className="text-slate-600 font-mono w-6 text-right">{i + 1}</span>
+            <span className="pt-0.5">{STATUS_ICONS[row.status]}</span>
+            <div className="min-w-0">
+              <div className="text-slate-300 truncate">{row.action}</div>
+              <div className="text-slate-500 truncate">{row.intent}</div>
+              {row.error && <div className="text-red-400 text-[10px]">{row.error} (attempt {row.attempts})</div>}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useRef, useState } from 'react';
+import { CheckCircle2, Download, Gauge, Play, Square, X, XCircle } from 'lucide-react';
+import { GOLDEN_SETS, expectedRange, summarizeReport } from '../lib/benchmark';
+import type { AxisOutcome, BenchmarkReport, BenchmarkSummary, GoldenSet, ScenarioOutcome } from '../lib/benchmark';
+import { downloadFile } from '../lib/scenarioFiles';
+
+type BenchmarkPanelProps = {
+  visible: boolean;
+  target: string; // Provider and model the next run will use
+  lastReports: Record<string, BenchmarkReport>;
+  // Runs the set through the current provider; resolves with the report (partial when stopped)
+  run: (set: GoldenSet, onOutcome: (outcome: ScenarioOutcome, done: number) => void, shouldStop: () => boolean) => Promise<BenchmarkReport>;
+  onClose: () => void;
+};
+
+const buttonClass = "text-[10px] px-2 py-1 rounded uppercase font-bold flex items-center gap-1 border border-slate-700 bg-slate-800 text-slate-300 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed";
+
+const percent = (share?: number) => share === undefined ? '—' : `${Math.round(share * 100)}%`;
+
+const SummaryRow = ({ label, summary, report }: { label: string; summary: BenchmarkSummary; report: BenchmarkReport }) => (
+  <div className="text-xs space-y-0.5">
+    <div className="flex items-baseline justify-between">
+      <span className="text-slate-400">{label}</span>
+      <span className={`font-mono font-bold ${summary.passed === summary.total ? 'text-green-400' : 'text-amber-300'}`}>
+        {summary.passed}/{summary.total} pass
+      </span>
+    </div>
+    <div className="font-mono text-[10px] text-slate-500">
+      MAE Y {summary.meanError.y.toFixed(3)} · X {summary.meanError.x.toFixed(3)} · coverage Y {percent(summary.coverage.y)} · X {percent(summary.coverage.x)}
+      {summary.failedCalls > 0 && ` · ${summary.failedCalls} failed call(s)`}
+    </div>
+    <div className="text-[10px] text-slate-600 truncate" title={`Prompt ${report.promptFingerprint}`}>
+      {report.providerId} · {report.model} · {report.frameworkId} v{report.frameworkVersion} · prompt {report.promptFingerprint} · {new Date(report.ranAt).toLocaleString()}
+    </div>
+  </div>
+);
+
+const AxisCell = ({ outcome, expected }: { outcome?: AxisOutcome; expected: [number, number] }) => (
+  <span
+    className={`font-mono ${outcome ? (outcome.inRange ? 'text-slate-300' : 'text-red-400') : 'text-slate-600'}`}
+    title={`Expected ${expected[0].toFixed(2)} … ${expected[1].toFixed(2)}`}
+  >
+    {outcome ? outcome.value.toFixed(2) : '—'}
+    {outcome?.covered !== undefined && (
+      <span className={outcome.covered ? 'text-indigo-400' : 'text-slate-600'} title={outcome.covered ? 'Noise interval covers the target' : 'Noise interval misses the target'}>
+        {outcome.covered ? ' ◉' : ' ○'}
+      </span>
+    )}
+  </span>
+);
+
+// Runs a versioned golden set and reports pass/fail, error and interval coverage against the previous run
+export default function BenchmarkPanel({ visible, target, lastReports, run, onClose }: BenchmarkPanelProps) {
+  const [setId, setSetId] = useState(GOLDEN_SETS[0].id);
+  const [running, setRunning] = useState(false);
+  const [outcomes, setOutcomes] = useState<ScenarioOutcome[]>([]);
+  const [report, setReport] = useState<BenchmarkReport | null>(null);
+  const [baseline, setBaseline] = useState<BenchmarkReport | null>(null);
+  const stopRef = useRef(false);
+
+  const goldenSet = GOLDEN_SETS.find(s => s.id === setId) ?? GOLDEN_SETS[0];
+  // Reports from another version of the set are not comparable
+  const stored = lastReports[goldenSet.id]?.setVersion === goldenSet.version ? lastReports[goldenSet.id] : null;
+  const shownBaseline = running || report ? baseline : stored;
+
+  const start = async () => {
+    stopRef.current = false;
+    setBaseline(stored);
+    setReport(null);
+    setOutcomes([]);
+    setRunning(true);
+    try {
+      setReport(await run(goldenSet, (outcome) => setOutcomes(prev => [...prev, outcome]), () => stopRef.current));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const exportReport = () => {
+    if (report) downloadFile(`benchmark-${report.setId}-v${report.setVersion}-${report.ranAt.slice(0, 10)}.json`, JSON.stringify(report, null, 2), 'application/json');
+  };
+
+  return (
+    <div className={`absolute inset-y-0 right-0 w-[460px] bg-slate-900 border-l border-indigo-500/30 shadow-2xl z-40 flex flex-col ${visible ? '' : 'hidden'}`}>
+      <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-slate-400 flex items-center gap-2">
+          <Gauge className="w-4 h-4 text-indigo-400" /> Golden-Set Benchmark
+        </h2>
+        <button onClick={onClose} className="text-slate-600 hover:text-slate-300" title="Close Benchmark">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-3 overflow-y-auto">
+        <div className="flex items-center gap-2">
+          <select
+            value={setId}
+            onChange={(e) => setSetId(e.target.value)}
+            disabled={running}
+            className="flex-1 bg-slate-950 border border-slate-700 rounded p-1.5 text-xs text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500"
+          >
+            {GOLDEN_SETS.map(s => <option key={s.id} value={s.id}>{s.name} (v{s.version})</option>)}
+          </select>
+          <button onClick={start} disabled={running} className={buttonClass}>
+            <Play className="w-3 h-3" /> Run
+          </button>
+          <button onClick={() => { stopRef.current = true; }} disabled={!running} className={buttonClass}>
+            <Square className="w-3 h-3" /> Stop
+          </button>
+          <button onClick={exportReport} disabled={!report} className={buttonClass} title="Download the report as JSON">
+            <Download className="w-3 h-3" />
+          </button>
+        </div>
+        <p className="text-[10px] text-slate-600">
+          {goldenSet.scenarios.length} scenarios · runs against {target} · the Y-cache and ensemble settings are bypassed
+        </p>
+
+        {running && (
+          <div className="space-y-1">
+            <div className="flex justify-between text-[10px] uppercase tracking-wide text-slate-500">
+              <span>running</span>
+              <span>{outcomes.length} / {goldenSet.scenarios.length}</span>
+            </div>
+            <div className="h-1.5 bg-slate-800 rounded overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round((outcomes.length / goldenSet.scenarios.length) * 100)}%` }} />
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2 pt-2 border-t border-slate-800">
+          {report && <SummaryRow label="This run" summary={summarizeReport(report)} report={report} />}
+          {shownBaseline && <SummaryRow label="Previous run" summary={summarizeReport(shownBaseline)} report={shownBaseline} />}
+          {!report && !shownBaseline && <p className="text-xs text-slate-600 italic">No run of this set yet.</p>}
+        </div>
+
+        {outcomes.length > 0 && (
+          <div className="pt-2 border-t border-slate-800">
+            <div className="grid grid-cols-[auto_1fr_auto_auto] gap-x-3 gap-y-1 text-xs items-baseline">
+              <span />
+              <span className="text-[10px] uppercase tracking-wide text-slate-600">Scenario</span>
+              <span className="text-[10px] uppercase tracking-wide text-slate-600">Y</span>
+              <span className="text-[10px] uppercase tracking-wide text-slate-600">X</span>
+              {outcomes.map(outcome => (
+                <div key={outcome.scenario.id} className="contents">
+                  {outcome.pass
+                    ? <CheckCircle2 className="w-3 h-3 text-green-400" />
+                    : <XCircle className="w-3 h-3 text-red-400" />}
+                  <span className="text-slate-400 truncate" title={outcome.error ?? `${outcome.scenario.action} — ${outcome.scenario.intent}`}>
+                    {outcome.error ? <span className="text-red-400">{outcome.error}</span> : outcome.scenario.action}
+                  </span>
+                  <AxisCell outcome={outcome.y} expected={expectedRange(outcome.scenario.expected.y)} />
+                  <AxisCell outcome={outcome.x} expected={expectedRange(outcome.scenario.expected.x)} />
+                </div>
+              ))}
+            </div>
+            <p className="mt-2 text-[10px] text-slate-600">Red values fall outside the expected range. ◉ / ○: the reported noise interval does / does not cover the rubric value.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
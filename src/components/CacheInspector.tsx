@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { Check, Database, Pencil, Pin, PinOff, Search, Trash2, X } from 'lucide-react';
+import { DEFAULT_SYNONYMS, normalizeAction, splitCacheKey } from '../lib/cache';
+import type { NormalizationSettings } from '../lib/cache';
+import { resolveFramework } from '../lib/frameworks';
+import type { MoralFramework } from '../lib/frameworks';
+import type { YCache, YCacheEntry } from '../lib/types';
+
+type CacheInspectorProps = {
+  cache: YCache;
+  frameworks: MoralFramework[];
+  settings: NormalizationSettings;
+  onSettingsChange: (settings: NormalizationSettings) => void;
+  onUpdate: (key: string, entry: YCacheEntry) => void;
+  onDelete: (key: string) => void;
+  onClear: () => void; // Drops every unpinned entry
+  onClose: () => void;
+};
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded p-2 text-xs text-slate-200 focus:ring-1 focus:ring-indigo-500 outline-none placeholder:text-slate-700";
+const buttonClass = "text-[10px] px-2 py-1 rounded uppercase font-bold flex items-center gap-1 border border-slate-700 bg-slate-800 text-slate-300 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed";
+const numberClass = "w-16 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-xs font-mono text-slate-200 outline-none";
+
+type Draft = { y: string; yMin: string; yMax: string };
+
+const toDraft = (entry: YCacheEntry): Draft => ({
+  y: entry.y.toString(),
+  yMin: entry.yMin?.toString() ?? '',
+  yMax: entry.yMax?.toString() ?? ''
+});
+
+// Blank bounds mean "no interval"; anything else must stay on the [-1, 1] scale around Y
+const parseDraft = (draft: Draft): Pick<YCacheEntry, 'y' | 'yMin' | 'yMax'> | string => {
+  const read = (text: string) => (text.trim() === '' ? undefined : Number(text));
+  const y = read(draft.y);
+  const yMin = read(draft.yMin);
+  const yMax = read(draft.yMax);
+  if (y === undefined) return 'Y is required.';
+  if ([y, yMin, yMax].some(v => v !== undefined && (!Number.isFinite(v) || v < -1 || v > 1))) return 'Values must be between -1 and 1.';
+  if ((yMin === undefined) !== (yMax === undefined)) return 'Give both bounds or neither.';
+  if (yMin !== undefined && yMax !== undefined && !(yMin <= y && y <= yMax)) return 'Bounds must satisfy min ≤ Y ≤ max.';
+  return { y, yMin, yMax };
+};
+
+const CacheRow = ({ cacheKey, entry, framework, onUpdate, onDelete }: {
+  cacheKey: string;
+  entry: YCacheEntry;
+  framework: MoralFramework;
+  onUpdate: (entry: YCacheEntry) => void;
+  onDelete: () => void;
+}) => {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const parsed = draft && parseDraft(draft);
+
+  const save = () => {
+    if (!parsed || typeof parsed === 'string') return;
+    onUpdate({ ...entry, ...parsed });
+    setDraft(null);
+  };
+
+  return (
+    <div className={`p-2 rounded border text-xs ${entry.pinned ? 'border-indigo-500/40 bg-indigo-500/5' : 'border-slate-800 bg-slate-900/60'}`}>
+      <div className="flex items-start gap-2">
+        <div className="min-w-0 flex-1">
+          <div className="text-slate-200 truncate" title={cacheKey}>{entry.action ?? splitCacheKey(cacheKey).action}</div>
+          <div className="text-[10px] font-mono text-slate-500">
+            {framework.badge} · Y {entry.y.toFixed(2)}
+            {entry.yMin !== undefined && entry.yMax !== undefined && ` [${entry.yMin.toFixed(2)}, ${entry.yMax.toFixed(2)}]`}
+            {entry.updatedAt && ` · ${new Date(entry.updatedAt).toLocaleDateString()}`}
+          </div>
+        </div>
+        <button
+          onClick={() => onUpdate({ ...entry, pinned: !entry.pinned })}
+          className={`${entry.pinned ? 'text-indigo-400' : 'text-slate-600'} hover:text-indigo-300`}
+          title={entry.pinned ? 'Unpin (clearing the cache will drop it)' : 'Pin (survives cache clears and framework edits)'}
+        >
+          {entry.pinned ? <Pin className="w-3.5 h-3.5" /> : <PinOff className="w-3.5 h-3.5" />}
+        </button>
+        <button onClick={() => setDraft(draft ? null : toDraft(entry))} className="text-slate-600 hover:text-slate-300" title="Edit Cached Values">
+          <Pencil className="w-3.5 h-3.5" />
+        </button>
+        <button onClick={onDelete} className="text-slate-600 hover:text-red-400" title="Delete Entry">
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {draft && (
+        <div className="mt-2 space-y-1">
+          <div className="flex items-center gap-2 text-[10px] text-slate-500">
+            <label className="flex items-center gap-1">Y <input value={draft.y} onChange={(e) => setDraft({ ...draft, y: e.target.value })} className={numberClass} /></label>
+            <label className="flex items-center gap-1">min <input value={draft.yMin} onChange={(e) => setDraft({ ...draft, yMin: e.target.value })} className={numberClass} /></label>
+            <label className="flex items-center gap-1">max <input value={draft.yMax} onChange={(e) => setDraft({ ...draft, yMax: e.target.value })} className={numberClass} /></label>
+            <button onClick={save} disabled={typeof parsed === 'string'} className={buttonClass}>
+              <Check className="w-3 h-3" /> Save
+            </button>
+          </div>
+          {typeof parsed === 'string' && <p className="text-[10px] text-red-400">{parsed}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Browse, correct and pin the cached action weights of the active workspace
+export default function CacheInspector({ cache, frameworks, settings, onSettingsChange, onUpdate, onDelete, onClear, onClose }: CacheInspectorProps) {
+  const [query, setQuery] = useState('');
+
+  const needle = normalizeAction(query);
+  const entries = Object.entries(cache)
+    .filter(([key, entry]) => !needle || normalizeAction(entry.action ?? splitCacheKey(key).action).includes(needle))
+    .sort(([a, ea], [b, eb]) => Number(!!eb.pinned) - Number(!!ea.pinned) || a.localeCompare(b));
+  const pinnedCount = Object.values(cache).filter(e => e.pinned).length;
+
+  return (
+    <div className="absolute inset-y-0 right-0 w-[440px] bg-slate-900 border-l border-indigo-500/30 shadow-2xl z-40 flex flex-col">
+      <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-slate-400 flex items-center gap-2">
+          <Database className="w-4 h-4 text-indigo-400" /> Logic Cache
+        </h2>
+        <button onClick={onClose} className="text-slate-600 hover:text-slate-300" title="Close Cache Inspector">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-3 overflow-y-auto">
+        <div className="relative">
+          <Search className="w-3 h-3 text-slate-600 absolute left-2 top-1/2 -translate-y-1/2" />
+          <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search actions" className={`${inputClass} pl-6`} />
+        </div>
+
+        <div className="flex items-center justify-between text-[10px] uppercase tracking-wide text-slate-500">
+          <span>{Object.keys(cache).length} action(s) · {pinnedCount} pinned</span>
+          <button onClick={onClear} disabled={Object.keys(cache).length === pinnedCount} className={buttonClass}>
+            <Trash2 className="w-3 h-3" /> Clear Unpinned
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          {entries.map(([key, entry]) => (
+            <CacheRow
+              key={key}
+              cacheKey={key}
+              entry={entry}
+              framework={resolveFramework(frameworks, splitCacheKey(key).mode)}
+              onUpdate={(next) => onUpdate(key, next)}
+              onDelete={() => onDelete(key)}
+            />
+          ))}
+          {entries.length === 0 && (
+            <p className="text-xs text-slate-600 italic text-center py-4">{query ? 'No cached action matches.' : 'No actions cached yet.'}</p>
+          )}
+        </div>
+
+        <div className="pt-3 border-t border-slate-800 space-y-2">
+          <h3 className="text-xs font-medium text-slate-400">Action Matching</h3>
+          <p className="text-[10px] text-slate-600">
+            Case, punctuation and spacing are always ignored. Synonym rules additionally treat the listed word forms as one word.
+          </p>
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            <input type="checkbox" checked={settings.useSynonyms} onChange={(e) => onSettingsChange({ ...settings, useSynonyms: e.target.checked })} />
+            Match synonyms
+          </label>
+          <textarea
+            value={settings.synonyms}
+            onChange={(e) => onSettingsChange({ ...settings, synonyms: e.target.value })}
+            disabled={!settings.useSynonyms}
+            placeholder={DEFAULT_SYNONYMS}
+            className={`${inputClass} h-32 resize-none font-mono disabled:opacity-50`}
+          />
+          <p className="text-[10px] text-slate-600">One rule per line: <span className="font-mono">variant, variant =&gt; canonical</span></p>
+        </div>
+      </div>
+    </div>
+  );
+}
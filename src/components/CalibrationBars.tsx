@@ -0,0 +1,63 @@
+import type { EnsembleStats } from '../lib/ensemble';
+
+type CalibrationBarsProps = {
+  stats: EnsembleStats;
+  color: string;
+};
+
+// Maps [-1, 1] onto a percentage of the track width
+const toPct = (value: number) => ((value + 1) / 2) * 100;
+
+const Track = ({ min, max, color, dashed }: { min?: number; max?: number; color: string; dashed?: boolean }) => (
+  <div className="relative h-1.5 bg-slate-800 rounded">
+    <div className="absolute top-0 bottom-0 w-px bg-slate-600 left-1/2" />
+    {min !== undefined && max !== undefined && (
+      <div
+        className={`absolute top-0 bottom-0 rounded ${dashed ? 'border border-dashed' : ''}`}
+        style={{
+          left: `${toPct(min)}%`,
+          width: `${Math.max(toPct(max) - toPct(min), 1)}%`,
+          backgroundColor: dashed ? 'transparent' : color,
+          borderColor: color,
+          opacity: dashed ? 0.8 : 0.6
+        }}
+      />
+    )}
+  </div>
+);
+
+// Self-reported noise (dashed) vs measured ensemble spread (solid), per axis
+export default function CalibrationBars({ stats, color }: CalibrationBarsProps) {
+  const low = Math.round(((1 - stats.coverage) / 2) * 100);
+  const rows = [
+    { axis: 'Y', reported: [stats.reported.yMin, stats.reported.yMax], measured: stats.y },
+    { axis: 'X', reported: [stats.reported.xMin, stats.reported.xMax], measured: stats.x },
+  ];
+
+  return (
+    <div className="mt-2 pt-2 border-t border-slate-800 space-y-1.5 text-[10px] font-mono text-slate-500">
+      <div className="flex justify-between uppercase tracking-wide">
+        <span>Calibration · {stats.samples.length} samples{stats.failed > 0 && ` (${stats.failed} failed)`}</span>
+        <span>P{low}–P{100 - low}</span>
+      </div>
+      {rows.map(({ axis, reported, measured }) => {
+        const reportedWidth = reported[0] !== undefined && reported[1] !== undefined ? reported[1] - reported[0] : undefined;
+        const measuredWidth = measured.high - measured.low;
+        return (
+          <div key={axis} className="grid grid-cols-[auto_1fr_auto] gap-x-2 gap-y-0.5 items-center">
+            <span className="row-span-2">{axis}</span>
+            <Track min={reported[0]} max={reported[1]} color={color} dashed />
+            <span title="Self-reported interval width">{reportedWidth !== undefined ? reportedWidth.toFixed(2) : '—'}</span>
+            <Track min={measured.low} max={measured.high} color={color} />
+            <span title="Measured interval width">{measuredWidth.toFixed(2)}</span>
+          </div>
+        );
+      })}
+      <div className="flex justify-between">
+        <span>μ ({stats.x.mean.toFixed(2)}, {stats.y.mean.toFixed(2)})</span>
+        <span>median ({stats.x.median.toFixed(2)}, {stats.y.median.toFixed(2)})</span>
+      </div>
+      <div className="text-slate-600">dashed = model's claim · solid = measured spread</div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useRef, useState } from 'react';
+import { AlertTriangle, Play, Square, TrendingUp, X } from 'lucide-react';
+import { DEFAULT_DRIFT_THRESHOLD, driftReport } from '../lib/runs';
+import type { MoralPoint } from '../lib/types';
+
+type DriftPanelProps = {
+  visible: boolean;
+  points: MoralPoint[]; // The scenarios currently shown (respects the filters)
+  target: string;       // Provider and model a re-run will use
+  // Re-analyzes one scenario and records the run
+  reanalyze: (point: MoralPoint) => Promise<void>;
+  onClose: () => void;
+};
+
+const buttonClass = "text-[10px] px-2 py-1 rounded uppercase font-bold flex items-center gap-1 border border-slate-700 bg-slate-800 text-slate-300 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed";
+
+const signed = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+
+// Flags scenarios whose latest run moved away from the first by more than the threshold
+export default function DriftPanel({ visible, points, target, reanalyze, onClose }: DriftPanelProps) {
+  const [threshold, setThreshold] = useState(DEFAULT_DRIFT_THRESHOLD);
+  const [progress, setProgress] = useState<{ done: number; total: number; failed: number } | null>(null);
+  const stopRef = useRef(false);
+
+  const report = driftReport(points, threshold);
+  const flagged = report.filter(d => d.exceeds);
+
+  // Re-runs every scenario in view, one at a time; failures are counted and skipped
+  const rerunAll = async () => {
+    const queue = [...points];
+    stopRef.current = false;
+    let failed = 0;
+    setProgress({ done: 0, total: queue.length, failed });
+    for (const [i, point] of queue.entries()) {
+      if (stopRef.current) break;
+      try {
+        await reanalyze(point);
+      } catch {
+        failed += 1;
+      }
+      setProgress({ done: i + 1, total: queue.length, failed });
+    }
+    setProgress(prev => prev && { ...prev, total: prev.done });
+  };
+
+  const running = progress !== null && progress.done < progress.total;
+
+  return (
+    <div className={`absolute inset-y-0 right-0 w-[440px] bg-slate-900 border-l border-indigo-500/30 shadow-2xl z-40 flex flex-col ${visible ? '' : 'hidden'}`}>
+      <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-slate-400 flex items-center gap-2">
+          <TrendingUp className="w-4 h-4 text-indigo-400" /> Drift Report
+        </h2>
+        <button onClick={onClose} className="text-slate-600 hover:text-slate-300" title="Close Drift Report">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-3 overflow-y-auto">
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          <label className="flex items-center gap-2">
+            Threshold
+            <input
+              type="number"
+              min={0}
+              max={2}
+              step={0.05}
+              value={threshold}
+              onChange={(e) => setThreshold(Math.max(0, Number(e.target.value) || 0))}
+              className="w-16 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-xs font-mono text-slate-200 outline-none"
+            />
+          </label>
+          <div className="ml-auto flex items-center gap-2">
+            <button onClick={rerunAll} disabled={running || points.length === 0} className={buttonClass} title="Re-analyze every scenario in view">
+              <Play className="w-3 h-3" /> Re-run {points.length}
+            </button>
+            <button onClick={() => { stopRef.current = true; }} disabled={!running} className={buttonClass}>
+              <Square className="w-3 h-3" /> Stop
+            </button>
+          </div>
+        </div>
+        <p className="text-[10px] text-slate-600">
+          Compares each scenario's latest run with its first · re-runs use {target} and bypass the Y-cache
+        </p>
+
+        {progress && (
+          <div className="space-y-1">
+            <div className="flex justify-between text-[10px] uppercase tracking-wide text-slate-500">
+              <span>{running ? 'running' : 'done'}{progress.failed > 0 && ` · ${progress.failed} failed`}</span>
+              <span>{progress.done} / {progress.total}</span>
+            </div>
+            <div className="h-1.5 bg-slate-800 rounded overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all" style={{ width: `${progress.total ? Math.round((progress.done / progress.total) * 100) : 100}%` }} />
+            </div>
+          </div>
+        )}
+
+        <div className="pt-2 border-t border-slate-800 text-xs text-slate-400">
+          {report.length === 0
+            ? <p className="text-slate-600 italic">No scenario in view has been re-analyzed yet.</p>
+            : <p><span className={flagged.length ? 'text-amber-300 font-bold' : 'text-green-400 font-bold'}>{flagged.length}</span> of {report.length} re-analyzed scenario(s) drifted by more than {threshold.toFixed(2)}.</p>}
+        </div>
+
+        {report.length > 0 && (
+          <div className="grid grid-cols-[auto_1fr_auto_auto_auto] gap-x-3 gap-y-1 text-xs items-baseline">
+            <span />
+            <span className="text-[10px] uppercase tracking-wide text-slate-600">Scenario</span>
+            <span className="text-[10px] uppercase tracking-wide text-slate-600">Runs</span>
+            <span className="text-[10px] uppercase tracking-wide text-slate-600">ΔY</span>
+            <span className="text-[10px] uppercase tracking-wide text-slate-600">ΔX</span>
+            {report.map(drift => (
+              <div key={drift.point.id} className="contents">
+                {drift.exceeds ? <AlertTriangle className="w-3 h-3 text-amber-300" /> : <span />}
+                <span className="text-slate-300 truncate" title={`${drift.point.action} — ${drift.point.intent}`}>{drift.point.label}</span>
+                <span className="font-mono text-slate-500">{drift.runs}</span>
+                <span className={`font-mono ${Math.abs(drift.y) > threshold ? 'text-amber-300' : 'text-slate-400'}`}>{signed(drift.y)}</span>
+                <span className={`font-mono ${Math.abs(drift.x) > threshold ? 'text-amber-300' : 'text-slate-400'}`}>{signed(drift.x)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
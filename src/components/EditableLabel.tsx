@@ -0,0 +1,44 @@
+import { useState } from 'react';
+import { Pencil } from 'lucide-react';
+
+type EditableLabelProps = {
+  value: string;
+  readOnly?: boolean;
+  onChange: (label: string) => void;
+};
+
+// Scenario title that turns into an input on click; Enter or blur saves, Escape cancels
+export default function EditableLabel({ value, readOnly, onChange }: EditableLabelProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    const label = draft?.trim();
+    if (label && label !== value) onChange(label);
+    setDraft(null);
+  };
+
+  if (draft !== null) {
+    return (
+      <input
+        autoFocus
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+          if (e.key === 'Escape') setDraft(null);
+        }}
+        className="w-full bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-sm font-semibold text-slate-200 focus:ring-1 focus:ring-indigo-500 outline-none"
+      />
+    );
+  }
+
+  if (readOnly) return <span>{value}</span>;
+
+  return (
+    <button onClick={() => setDraft(value)} className="group/label flex items-center gap-1 text-left hover:text-white" title="Rename Scenario">
+      {value}
+      <Pencil className="w-3 h-3 text-slate-600 opacity-0 group-hover/label:opacity-100 transition-opacity" />
+    </button>
+  );
+}
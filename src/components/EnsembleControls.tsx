@@ -0,0 +1,83 @@
+import { Sigma } from 'lucide-react';
+import type { EnsembleConfig } from '../lib/ensemble';
+
+type EnsembleControlsProps = {
+  config: EnsembleConfig;
+  disabled: boolean;
+  onChange: (config: EnsembleConfig) => void;
+};
+
+const numberClass = "w-14 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-xs text-slate-200 focus:ring-1 focus:ring-indigo-500 outline-none disabled:opacity-40";
+
+export default function EnsembleControls({ config, disabled, onChange }: EnsembleControlsProps) {
+  const clampTemp = (value: number) => Math.min(2, Math.max(0, value));
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-xs font-medium text-slate-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={config.enabled}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...config, enabled: e.target.checked })}
+          className="accent-indigo-500"
+        />
+        <Sigma className="w-3 h-3 text-indigo-400" />
+        Ensemble sampling
+        <span className="text-[10px] text-slate-600">(measures the spread instead of trusting one answer)</span>
+      </label>
+
+      {config.enabled && (
+        <div className="grid grid-cols-3 gap-2 text-[10px] uppercase tracking-wide text-slate-500 pl-5">
+          <label className="space-y-1">
+            <span className="block">Samples</span>
+            <input
+              type="number"
+              min={2}
+              max={20}
+              value={config.samples}
+              disabled={disabled}
+              onChange={(e) => onChange({ ...config, samples: Math.min(20, Math.max(2, Number(e.target.value) || 2)) })}
+              className={numberClass}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="block">Temp range</span>
+            <span className="flex items-center gap-1">
+              <input
+                type="number"
+                step={0.1}
+                value={config.minTemperature}
+                disabled={disabled}
+                onChange={(e) => onChange({ ...config, minTemperature: clampTemp(Number(e.target.value)) })}
+                className={numberClass}
+              />
+              <input
+                type="number"
+                step={0.1}
+                value={config.maxTemperature}
+                disabled={disabled}
+                onChange={(e) => onChange({ ...config, maxTemperature: clampTemp(Number(e.target.value)) })}
+                className={numberClass}
+              />
+            </span>
+          </label>
+          <label className="space-y-1">
+            <span className="block">Interval</span>
+            <select
+              value={config.coverage}
+              disabled={disabled}
+              onChange={(e) => onChange({ ...config, coverage: Number(e.target.value) })}
+              className={numberClass}
+            >
+              <option value={0.5}>P25–P75</option>
+              <option value={0.8}>P10–P90</option>
+              <option value={0.9}>P5–P95</option>
+              <option value={1}>Min–Max</option>
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
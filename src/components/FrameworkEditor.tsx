@@ -0,0 +1,241 @@
+import { useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+import { Copy, Download, Lock, PencilRuler, Save, Trash2, Upload, X } from 'lucide-react';
+import {
+  PROMPT_PLACEHOLDERS,
+  QUADRANT_ORDER,
+  anchorsToText,
+  copyFramework,
+  frameworkToJSON,
+  isBuiltIn,
+  parseAnchors,
+  parseFramework,
+  resolveFramework
+} from '../lib/frameworks';
+import type { MoralFramework, QuadrantKey } from '../lib/frameworks';
+import { downloadFile } from '../lib/scenarioFiles';
+
+type FrameworkEditorProps = {
+  frameworks: MoralFramework[];
+  initialId: string;
+  onSave: (framework: MoralFramework) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => Promise<MoralFramework | null>;
+  onClose: () => void;
+};
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded p-2 text-xs text-slate-200 focus:ring-1 focus:ring-indigo-500 outline-none placeholder:text-slate-700 disabled:opacity-60";
+const buttonClass = "text-[10px] px-2 py-1 rounded uppercase font-bold flex items-center gap-1 border border-slate-700 bg-slate-800 text-slate-300 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed";
+
+const QUADRANT_HINTS: Record<QuadrantKey, string> = {
+  q1: 'Q1 · +X +Y',
+  q2: 'Q2 · −X +Y',
+  q3: 'Q3 · −X −Y',
+  q4: 'Q4 · +X −Y',
+};
+
+const Field = ({ label, children }: { label: string; children: ReactNode }) => (
+  <div className="space-y-1">
+    <label className="text-xs font-medium text-slate-400">{label}</label>
+    {children}
+  </div>
+);
+
+type FrameworkFormProps = {
+  framework: MoralFramework;
+  readOnly: boolean;
+  onSave: (framework: MoralFramework) => void;
+};
+
+// Remounted (via key) whenever the selected framework or its version changes, so the draft starts fresh
+function FrameworkForm({ framework, readOnly, onSave }: FrameworkFormProps) {
+  const [draft, setDraft] = useState(framework);
+  const [anchorText, setAnchorText] = useState({ x: anchorsToText(framework.axes.x.anchors), y: anchorsToText(framework.axes.y.anchors) });
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (patch: Partial<MoralFramework>) => setDraft(prev => ({ ...prev, ...patch }));
+  const updateAxis = (axis: 'x' | 'y', name: string) =>
+    setDraft(prev => ({ ...prev, axes: { ...prev.axes, [axis]: { ...prev.axes[axis], name } } }));
+  const updateQuadrant = (key: QuadrantKey, patch: Partial<MoralFramework['quadrants'][QuadrantKey]>) =>
+    setDraft(prev => ({ ...prev, quadrants: { ...prev.quadrants, [key]: { ...prev.quadrants[key], ...patch } } }));
+
+  const save = () => {
+    try {
+      onSave(parseFramework({
+        ...draft,
+        axes: {
+          x: { ...draft.axes.x, anchors: parseAnchors(anchorText.x, 'X axis') },
+          y: { ...draft.axes.y, anchors: parseAnchors(anchorText.y, 'Y axis') }
+        }
+      }));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid framework');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        <Field label="Name">
+          <input value={draft.name} disabled={readOnly} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+        </Field>
+        <Field label="Badge">
+          <input value={draft.badge} disabled={readOnly} onChange={(e) => update({ badge: e.target.value })} className={inputClass} />
+        </Field>
+        <Field label="Button">
+          <input value={draft.analyzeLabel} disabled={readOnly} onChange={(e) => update({ analyzeLabel: e.target.value })} className={inputClass} />
+        </Field>
+      </div>
+
+      <Field label="Tagline">
+        <input value={draft.tagline} disabled={readOnly} onChange={(e) => update({ tagline: e.target.value })} className={inputClass} />
+      </Field>
+
+      <Field label="Description (rubric tooltip)">
+        <textarea value={draft.description} disabled={readOnly} onChange={(e) => update({ description: e.target.value })} className={`${inputClass} h-16 resize-none`} />
+      </Field>
+
+      <Field label="Prompt template">
+        <textarea
+          value={draft.promptTemplate}
+          disabled={readOnly}
+          onChange={(e) => update({ promptTemplate: e.target.value })}
+          className={`${inputClass} h-40 font-mono text-[11px]`}
+        />
+        <p className="text-[10px] text-slate-600 font-mono">{PROMPT_PLACEHOLDERS.join(' ')}</p>
+      </Field>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Field label="Action placeholder">
+          <input value={draft.placeholders.action} disabled={readOnly} onChange={(e) => update({ placeholders: { ...draft.placeholders, action: e.target.value } })} className={inputClass} />
+        </Field>
+        <Field label="Intent placeholder">
+          <input value={draft.placeholders.intent} disabled={readOnly} onChange={(e) => update({ placeholders: { ...draft.placeholders, intent: e.target.value } })} className={inputClass} />
+        </Field>
+      </div>
+
+      {(['y', 'x'] as const).map(axis => (
+        <div key={axis} className="space-y-1">
+          <Field label={`${axis.toUpperCase()} axis name`}>
+            <input value={draft.axes[axis].name} disabled={readOnly} onChange={(e) => updateAxis(axis, e.target.value)} className={inputClass} />
+          </Field>
+          <textarea
+            value={anchorText[axis]}
+            disabled={readOnly}
+            onChange={(e) => setAnchorText(prev => ({ ...prev, [axis]: e.target.value }))}
+            placeholder="-1.0 | The Void | Sadism, Nihilism | #ef4444"
+            className={`${inputClass} h-24 font-mono text-[11px]`}
+          />
+        </div>
+      ))}
+      <p className="text-[10px] text-slate-600">Rubric anchors: one <span className="font-mono">value | label | description | #color</span> per line (color optional).</p>
+
+      <div className="space-y-1">
+        <label className="text-xs font-medium text-slate-400">Quadrants (watermark · legend · color)</label>
+        {QUADRANT_ORDER.map(key => (
+          <div key={key} className="grid grid-cols-[4.5rem_1fr_1fr_auto] gap-2 items-center">
+            <span className="text-[10px] font-mono text-slate-500">{QUADRANT_HINTS[key]}</span>
+            <input value={draft.quadrants[key].label} disabled={readOnly} onChange={(e) => updateQuadrant(key, { label: e.target.value })} className={inputClass} />
+            <input value={draft.quadrants[key].legend} disabled={readOnly} onChange={(e) => updateQuadrant(key, { legend: e.target.value })} className={inputClass} />
+            <input
+              type="color"
+              value={draft.quadrants[key].color}
+              disabled={readOnly}
+              onChange={(e) => updateQuadrant(key, { color: e.target.value })}
+              className="w-8 h-7 bg-transparent border border-slate-700 rounded cursor-pointer disabled:cursor-not-allowed"
+            />
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-red-400 text-xs bg-red-400/10 p-2 rounded border border-red-400/20">{error}</p>}
+
+      {!readOnly && (
+        <button onClick={save} className={buttonClass}>
+          <Save className="w-3 h-3" /> Save (new version)
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default function FrameworkEditor({ frameworks, initialId, onSave, onDelete, onImport, onClose }: FrameworkEditorProps) {
+  const [selectedId, setSelectedId] = useState(initialId);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = resolveFramework(frameworks, selectedId);
+  const readOnly = isBuiltIn(selected.id);
+
+  const duplicate = () => {
+    const name = window.prompt("Framework name", `${selected.name} (custom)`)?.trim();
+    if (!name) return;
+    const copy = copyFramework(selected, name);
+    onSave(copy);
+    setSelectedId(copy.id);
+  };
+
+  const remove = () => {
+    if (window.confirm(`Delete framework "${selected.name}"? Points it produced stay plotted.`)) {
+      onDelete(selected.id);
+      setSelectedId(frameworks[0].id);
+    }
+  };
+
+  return (
+    <div className="absolute inset-y-0 right-0 w-[520px] bg-slate-900 border-l border-indigo-500/30 shadow-2xl z-40 flex flex-col">
+      <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-slate-400 flex items-center gap-2">
+          <PencilRuler className="w-4 h-4 text-indigo-400" /> Frameworks
+        </h2>
+        <button onClick={onClose} className="text-slate-600 hover:text-slate-300" title="Close Framework Editor">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-4 border-b border-slate-800 flex flex-wrap items-center gap-2">
+        <select value={selected.id} onChange={(e) => setSelectedId(e.target.value)} className={`${inputClass} w-auto flex-1`}>
+          {frameworks.map(f => (
+            <option key={f.id} value={f.id}>{f.name} · v{f.version}{isBuiltIn(f.id) ? ' (built-in)' : ''}</option>
+          ))}
+        </select>
+        <button onClick={duplicate} className={buttonClass} title="Copy into a new editable framework">
+          <Copy className="w-3 h-3" /> Duplicate
+        </button>
+        <button onClick={remove} disabled={readOnly} className={buttonClass}>
+          <Trash2 className="w-3 h-3" /> Delete
+        </button>
+        <button onClick={() => importInputRef.current?.click()} className={buttonClass}>
+          <Upload className="w-3 h-3" /> Import
+        </button>
+        <button
+          onClick={() => downloadFile(`framework-${selected.id}-v${selected.version}.json`, frameworkToJSON(selected), 'application/json')}
+          className={buttonClass}
+        >
+          <Download className="w-3 h-3" /> Export
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={async (e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            const imported = file && await onImport(file);
+            if (imported) setSelectedId(imported.id);
+          }}
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {readOnly && (
+          <p className="text-[10px] text-slate-500 uppercase tracking-wide flex items-center gap-1">
+            <Lock className="w-3 h-3" /> Built-in framework · duplicate it to make changes
+          </p>
+        )}
+        <FrameworkForm key={`${selected.id}@${selected.version}`} framework={selected} readOnly={readOnly} onSave={onSave} />
+      </div>
+    </div>
+  );
+}
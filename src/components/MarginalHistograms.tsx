@@ -0,0 +1,51 @@
+import { usePlotArea } from 'recharts';
+import { marginalHistograms } from '../lib/stats';
+import type { MoralPoint } from '../lib/types';
+
+type MarginalHistogramsProps = {
+  points: MoralPoint[];
+  thickness?: number; // Pixels available outside the plot area (the chart margin)
+};
+
+const BAR_GAP = 1;
+
+// Rendered inside the ScatterChart: X counts above the plot area, Y counts to its right
+export default function MarginalHistograms({ points, thickness = 24 }: MarginalHistogramsProps) {
+  const plot = usePlotArea();
+  if (!plot || points.length === 0) return null;
+
+  const { x, y } = marginalHistograms(points);
+  const peak = Math.max(...x, ...y);
+  const barX = plot.width / x.length;
+  const barY = plot.height / y.length;
+
+  return (
+    <g opacity={0.7}>
+      {x.map((count, i) => count > 0 && (
+        <rect
+          key={`hx-${i}`}
+          x={plot.x + i * barX + BAR_GAP}
+          y={plot.y - (count / peak) * thickness}
+          width={barX - 2 * BAR_GAP}
+          height={(count / peak) * thickness}
+          fill="#6366f1"
+        >
+          <title>{`${count} scenario(s) with X in [${(-1 + (2 * i) / x.length).toFixed(1)}, ${(-1 + (2 * (i + 1)) / x.length).toFixed(1)}]`}</title>
+        </rect>
+      ))}
+      {/* Y bins run bottom-up, like the axis */}
+      {y.map((count, i) => count > 0 && (
+        <rect
+          key={`hy-${i}`}
+          x={plot.x + plot.width}
+          y={plot.y + plot.height - (i + 1) * barY + BAR_GAP}
+          width={(count / peak) * thickness}
+          height={barY - 2 * BAR_GAP}
+          fill="#6366f1"
+        >
+          <title>{`${count} scenario(s) with Y in [${(-1 + (2 * i) / y.length).toFixed(1)}, ${(-1 + (2 * (i + 1)) / y.length).toFixed(1)}]`}</title>
+        </rect>
+      ))}
+    </g>
+  );
+}
@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import type { ReactNode } from 'react';
+import { ChevronDown, ChevronRight, Trash2, Users } from 'lucide-react';
+import { modelSpread } from '../lib/lineup';
+import type { AxisSpread } from '../lib/lineup';
+import type { MoralPoint } from '../lib/types';
+
+type ModelGroupProps = {
+  members: MoralPoint[]; // In lineup order
+  onRemove?: () => void; // Omitted in read-only views
+  children: ReactNode;   // The members' history cards
+};
+
+// Ranges this wide count as real disagreement between the oracles
+const DISAGREEMENT_RANGE = 0.5;
+
+const SpreadLine = ({ axis, spread }: { axis: string; spread: AxisSpread }) => (
+  <span className={spread.range >= DISAGREEMENT_RANGE ? 'text-amber-300' : 'text-slate-400'} title={`${axis} from ${spread.min.toFixed(2)} to ${spread.max.toFixed(2)}`}>
+    {axis} {spread.min.toFixed(2)} → {spread.max.toFixed(2)} (Δ {spread.range.toFixed(2)}, σ {spread.sd.toFixed(2)})
+  </span>
+);
+
+// One scenario scored by several models: a collapsible entry with the inter-model spread per axis
+export default function ModelGroup({ members, onRemove, children }: ModelGroupProps) {
+  const [open, setOpen] = useState(false);
+  const spread = modelSpread(members);
+
+  return (
+    <div className="border border-slate-800 rounded bg-slate-900/60">
+      <div className="flex items-start gap-2 p-3 text-sm">
+        <button onClick={() => setOpen(prev => !prev)} className="text-slate-500 hover:text-slate-200 mt-0.5" title={open ? 'Collapse Models' : 'Expand Models'}>
+          {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        </button>
+        <Users className="w-4 h-4 shrink-0 mt-0.5 text-indigo-400" />
+        <div className="min-w-0 flex-1">
+          <div className="font-semibold text-slate-200 truncate" title={`${members[0].action} — ${members[0].intent}`}>{members[0].action}</div>
+          <div className="text-[10px] text-slate-500 truncate">{members[0].intent}</div>
+          <div className="mt-1 flex flex-col text-[10px] font-mono">
+            <span className="text-slate-500">{members.length} models · spread between oracles</span>
+            <SpreadLine axis="Y" spread={spread.y} />
+            <SpreadLine axis="X" spread={spread.x} />
+          </div>
+        </div>
+        {onRemove && (
+          <button onClick={onRemove} className="text-slate-600 hover:text-red-400 transition-colors" title="Remove Comparison">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      {open && <div className="px-2 pb-2 space-y-2">{children}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { Plus, Trash2, Users } from 'lucide-react';
+import { MAX_LINEUP_TARGETS, createTarget } from '../lib/lineup';
+import type { ModelLineup, ModelTarget } from '../lib/lineup';
+import { availableProviders, getProvider } from '../lib/providers';
+import type { ProviderId } from '../lib/providers';
+
+type ModelLineupControlsProps = {
+  lineup: ModelLineup;
+  currentProviderId: ProviderId; // Targets of this provider can borrow its key
+  disabled: boolean;
+  envApiKey: string;
+  proxyUrl: string;
+  onChange: (lineup: ModelLineup) => void;
+};
+
+const cellClass = "w-full bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-xs text-slate-200 focus:ring-1 focus:ring-indigo-500 outline-none disabled:opacity-40 placeholder:text-slate-700";
+
+// Targets a scenario is sent to side by side; shown under the inputs like ensemble sampling
+export default function ModelLineupControls({ lineup, currentProviderId, disabled, envApiKey, proxyUrl, onChange }: ModelLineupControlsProps) {
+  const setTargets = (targets: ModelTarget[]) => onChange({ ...lineup, targets });
+  const updateTarget = (id: string, patch: Partial<ModelTarget>) =>
+    setTargets(lineup.targets.map(t => t.id === id ? { ...t, ...patch } : t));
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-xs font-medium text-slate-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={lineup.enabled}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...lineup, enabled: e.target.checked })}
+          className="accent-indigo-500"
+        />
+        <Users className="w-3 h-3 text-indigo-400" />
+        Compare models
+        <span className="text-[10px] text-slate-600">(one scenario, every model in parallel)</span>
+      </label>
+
+      {lineup.enabled && (
+        <div className="space-y-1 pl-5">
+          {lineup.targets.map(target => {
+            const provider = getProvider(target.providerId);
+            return (
+              <div key={target.id} className="grid grid-cols-[6.5rem_1fr_auto] gap-1 items-center">
+                <select
+                  value={target.providerId}
+                  disabled={disabled}
+                  onChange={(e) => setTargets(lineup.targets.map(t => t.id === target.id ? { ...createTarget(e.target.value as ProviderId, envApiKey, proxyUrl), id: t.id } : t))}
+                  className={cellClass}
+                >
+                  {availableProviders(proxyUrl).map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                </select>
+                {provider.id === 'proxy' || provider.id === 'mock' ? (
+                  <span className="text-[10px] text-slate-600 px-1">{provider.id === 'proxy' ? 'model set on the server' : 'deterministic'}</span>
+                ) : (
+                  <input
+                    value={target.model}
+                    disabled={disabled}
+                    onChange={(e) => updateTarget(target.id, { model: e.target.value })}
+                    placeholder={provider.defaultModel}
+                    className={`${cellClass} font-mono`}
+                  />
+                )}
+                <button
+                  onClick={() => setTargets(lineup.targets.filter(t => t.id !== target.id))}
+                  disabled={disabled || lineup.targets.length <= 2}
+                  className="text-slate-600 hover:text-red-400 disabled:opacity-30"
+                  title="Remove Model"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+                {/* Self-hosted backends differ by endpoint as much as by model */}
+                {(provider.id === 'openai' || provider.id === 'ollama') && (
+                  <input
+                    value={target.endpoint}
+                    disabled={disabled}
+                    onChange={(e) => updateTarget(target.id, { endpoint: e.target.value })}
+                    placeholder={provider.defaultEndpoint}
+                    className={`${cellClass} font-mono col-start-2 col-span-2 text-[10px]`}
+                  />
+                )}
+                {/* Two OpenAI-compatible servers rarely share a key */}
+                {provider.needsApiKey && (
+                  <input
+                    type="password"
+                    value={target.apiKey}
+                    disabled={disabled}
+                    onChange={(e) => updateTarget(target.id, { apiKey: e.target.value })}
+                    placeholder={target.providerId === currentProviderId ? 'API key (default: provider settings)' : 'API key (memory only)'}
+                    className={`${cellClass} font-mono col-start-2 col-span-2 text-[10px]`}
+                  />
+                )}
+              </div>
+            );
+          })}
+          <button
+            onClick={() => setTargets([...lineup.targets, createTarget(availableProviders(proxyUrl)[0].id, envApiKey, proxyUrl)])}
+            disabled={disabled || lineup.targets.length >= MAX_LINEUP_TARGETS}
+            className="text-[10px] text-slate-600 hover:text-slate-300 flex items-center gap-1 uppercase tracking-wide disabled:opacity-30"
+          >
+            <Plus className="w-3 h-3" /> Add Model
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import type { SVGProps } from 'react';
+import { markerPath } from '../lib/lineup';
+import type { MarkerShape } from '../lib/lineup';
+
+type ModelMarkerProps = Omit<SVGProps<SVGElement>, 'ref'> & {
+  shape: MarkerShape;
+  cx: number;
+  cy: number;
+  r: number; // Radius of the circle the shape fits in
+};
+
+// Marker of one model in a multi-model comparison; used on the chart, in the legend and on cards
+export default function ModelMarker({ shape, cx, cy, r, ...rest }: ModelMarkerProps) {
+  if (shape === 'circle') return <circle cx={cx} cy={cy} r={r} {...rest} />;
+  return <path d={markerPath(shape, cx, cy, r)} {...rest} />;
+}
@@ -0,0 +1,46 @@
+import { useState } from 'react';
+import type { ReactNode } from 'react';
+import { BookOpen, ChevronDown, ChevronRight, Trash2 } from 'lucide-react';
+import { agentColor } from '../lib/narrative';
+import type { MoralPoint } from '../lib/types';
+
+type NarrativeGroupProps = {
+  members: MoralPoint[]; // In story order
+  agents: string[];      // Of the whole narrative, so colours do not shift when filters hide acts
+  onRemove?: () => void; // Omitted in read-only views
+  children: ReactNode;   // The members' history cards
+};
+
+// The pairs of one story as a single, collapsible entry; the agent chips double as the chart legend
+export default function NarrativeGroup({ members, agents, onRemove, children }: NarrativeGroupProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="border border-slate-800 rounded bg-slate-900/60">
+      <div className="flex items-start gap-2 p-3 text-sm">
+        <button onClick={() => setOpen(prev => !prev)} className="text-slate-500 hover:text-slate-200 mt-0.5" title={open ? 'Collapse Narrative' : 'Expand Narrative'}>
+          {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        </button>
+        <BookOpen className="w-4 h-4 shrink-0 mt-0.5 text-indigo-400" />
+        <div className="min-w-0 flex-1">
+          <div className="font-semibold text-slate-200 truncate" title={members[0].narrativeTitle}>{members[0].narrativeTitle ?? 'Narrative'}</div>
+          <div className="text-[10px] font-mono text-slate-500">{members.length} acts · {agents.length} agent(s)</div>
+          <div className="mt-1 flex flex-wrap gap-x-3 gap-y-1 text-[10px]">
+            {agents.map(agent => (
+              <span key={agent} className="flex items-center gap-1 text-slate-400">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: agentColor(agents, agent) }} />
+                {agent}
+              </span>
+            ))}
+          </div>
+        </div>
+        {onRemove && (
+          <button onClick={onRemove} className="text-slate-600 hover:text-red-400 transition-colors" title="Remove Narrative">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      {open && <div className="px-2 pb-2 space-y-2">{children}</div>}
+    </div>
+  );
+}
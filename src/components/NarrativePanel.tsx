@@ -0,0 +1,203 @@
+import { useRef, useState } from 'react';
+import { BookOpen, Play, Plus, RefreshCw, ShieldAlert, Square, Trash2, WandSparkles, X } from 'lucide-react';
+import { MAX_NARRATIVE_LENGTH, MAX_NARRATIVE_PAIRS, UNSTATED_INTENT, narrativeTitle } from '../lib/narrative';
+import type { NarrativePair } from '../lib/narrative';
+import { screenScenario, unusableInput } from '../lib/guardrails';
+import { describeAnalysisError } from '../lib/errors';
+
+type NarrativePanelProps = {
+  visible: boolean;
+  extract?: (story: string) => Promise<NarrativePair[]>; // Omitted through the team proxy, which only scores scenarios
+  // Scores the reviewed pairs in story order; resolves with the number plotted before stopping or finishing
+  run: (title: string, pairs: NarrativePair[], onStep: (done: number) => void, signal: AbortSignal) => Promise<number>;
+  onClose: () => void;
+};
+
+type NarrativeStatus = 'idle' | 'extracting' | 'running';
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded p-2 text-xs text-slate-200 focus:ring-1 focus:ring-indigo-500 outline-none placeholder:text-slate-700";
+const cellClass = "w-full bg-slate-950 border border-slate-800 rounded px-1.5 py-1 text-xs text-slate-200 focus:ring-1 focus:ring-indigo-500 outline-none";
+const buttonClass = "text-[10px] px-2 py-1 rounded uppercase font-bold flex items-center gap-1 border border-slate-700 bg-slate-800 text-slate-300 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed";
+
+// Paste a story, let the model list who did what and why, review the pairs, then plot them as one group
+export default function NarrativePanel({ visible, extract, run, onClose }: NarrativePanelProps) {
+  const [story, setStory] = useState('');
+  const [title, setTitle] = useState('');
+  const [pairs, setPairs] = useState<NarrativePair[]>([]);
+  const [status, setStatus] = useState<NarrativeStatus>('idle');
+  const [done, setDone] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null); // Aborted by Stop, cancelling the call in flight
+
+  const busy = status !== 'idle';
+  // Pairs the engine would refuse are skipped rather than failing the whole run
+  const plottable = pairs.filter(p => !unusableInput(p.action, p.intent));
+
+  const updatePair = (index: number, patch: Partial<NarrativePair>) => {
+    setPairs(prev => prev.map((p, i) => i === index ? { ...p, ...patch } : p));
+  };
+
+  const decompose = async () => {
+    if (!extract) return;
+    setStatus('extracting');
+    setError(null);
+    try {
+      setPairs(await extract(story.trim()));
+      setTitle(narrativeTitle(story));
+    } catch (err) {
+      setError(describeAnalysisError(err));
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const start = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setStatus('running');
+    setDone(0);
+    setError(null);
+    try {
+      await run(title.trim() || narrativeTitle(story) || 'Narrative', plottable, setDone, controller.signal);
+    } catch (err) {
+      setError(describeAnalysisError(err));
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  return (
+    <div className={`absolute inset-y-0 right-0 w-[520px] bg-slate-900 border-l border-indigo-500/30 shadow-2xl z-40 flex flex-col ${visible ? '' : 'hidden'}`}>
+      <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-slate-400 flex items-center gap-2">
+          <BookOpen className="w-4 h-4 text-indigo-400" /> Narrative
+        </h2>
+        <button onClick={onClose} className="text-slate-600 hover:text-slate-300" title="Close Narrative Panel">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-3 overflow-y-auto">
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <label className="text-xs font-medium text-slate-400">Story</label>
+            {extract ? (
+              <button onClick={decompose} disabled={busy || !story.trim()} className={buttonClass} title="Let the model list the agents, their actions and their intents">
+                {status === 'extracting' ? <RefreshCw className="w-3 h-3 animate-spin" /> : <WandSparkles className="w-3 h-3" />} Extract Pairs
+              </button>
+            ) : (
+              <button
+                onClick={() => {
+                  setPairs([{ agent: '', action: '', intent: UNSTATED_INTENT }]);
+                  setTitle(narrativeTitle(story));
+                }}
+                disabled={busy || pairs.length > 0}
+                className={buttonClass}
+                title="Write the agents, actions and intents yourself"
+              >
+                <Plus className="w-3 h-3" /> Write Pairs
+              </button>
+            )}
+          </div>
+          {!extract && (
+            <p className="text-[10px] text-slate-500">
+              Extraction needs a free-form prompt, which the team proxy does not run. Write the pairs yourself; they are still scored through the proxy.
+            </p>
+          )}
+          <textarea
+            value={story}
+            onChange={(e) => setStory(e.target.value.slice(0, MAX_NARRATIVE_LENGTH))}
+            disabled={busy}
+            placeholder="e.g. Maria took bread from the bakery because her children were starving. The baker chased her out of anger."
+            className={`${inputClass} h-32 resize-none`}
+          />
+          <p className="text-[10px] text-slate-600">{story.length} / {MAX_NARRATIVE_LENGTH} characters</p>
+        </div>
+
+        {pairs.length > 0 && (
+          <>
+            <div className="space-y-1">
+              <label className="text-xs font-medium text-slate-400">Group title</label>
+              <input value={title} onChange={(e) => setTitle(e.target.value)} disabled={busy} className={inputClass} />
+            </div>
+
+            <div className="space-y-1">
+              <div className="grid grid-cols-[6rem_1fr_1fr_auto] gap-1 text-[10px] uppercase tracking-wide text-slate-600">
+                <span>Agent</span>
+                <span>Action</span>
+                <span>Intent</span>
+                <span />
+              </div>
+              {pairs.map((pair, i) => {
+                const refused = unusableInput(pair.action, pair.intent);
+                const warnings = refused ? [] : screenScenario(pair.action, pair.intent);
+                return (
+                  <div key={i} className="grid grid-cols-[6rem_1fr_1fr_auto] gap-1 items-center">
+                    <input value={pair.agent} onChange={(e) => updatePair(i, { agent: e.target.value })} disabled={busy} className={cellClass} />
+                    <input value={pair.action} onChange={(e) => updatePair(i, { action: e.target.value })} disabled={busy} className={cellClass} />
+                    <input
+                      value={pair.intent}
+                      onChange={(e) => updatePair(i, { intent: e.target.value })}
+                      disabled={busy}
+                      className={`${cellClass} ${pair.intent === UNSTATED_INTENT ? 'text-slate-500 italic' : ''}`}
+                    />
+                    <span className="flex items-center gap-1">
+                      {(refused || warnings.length > 0) && (
+                        <span className={refused ? 'text-red-400' : 'text-orange-400'} title={refused ?? warnings.map(w => w.message).join('\n')}>
+                          <ShieldAlert className="w-3 h-3" />
+                        </span>
+                      )}
+                      <button
+                        onClick={() => setPairs(prev => prev.filter((_, j) => j !== i))}
+                        disabled={busy}
+                        className="text-slate-600 hover:text-red-400 disabled:opacity-30"
+                        title="Remove Pair"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </span>
+                  </div>
+                );
+              })}
+              <button
+                onClick={() => setPairs(prev => [...prev, { agent: prev[prev.length - 1]?.agent ?? '', action: '', intent: UNSTATED_INTENT }])}
+                disabled={busy || pairs.length >= MAX_NARRATIVE_PAIRS}
+                className="text-[10px] text-slate-600 hover:text-slate-300 flex items-center gap-1 uppercase tracking-wide disabled:opacity-30"
+              >
+                <Plus className="w-3 h-3" /> Add Pair
+              </button>
+              <p className="text-[10px] text-slate-600">
+                {plottable.length} of {pairs.length} pair(s) will be plotted · refused pairs (red) are skipped
+              </p>
+            </div>
+
+            <div className="flex gap-2">
+              <button onClick={start} disabled={busy || plottable.length === 0} className={buttonClass}>
+                <Play className="w-3 h-3" /> Plot {plottable.length}
+              </button>
+              <button onClick={() => controllerRef.current?.abort()} disabled={status !== 'running'} className={buttonClass}>
+                <Square className="w-3 h-3" /> Stop
+              </button>
+            </div>
+          </>
+        )}
+
+        {status === 'running' && (
+          <div className="space-y-1">
+            <div className="flex justify-between text-[10px] uppercase tracking-wide text-slate-500">
+              <span>running</span>
+              <span>{done} / {plottable.length}</span>
+            </div>
+            <div className="h-1.5 bg-slate-800 rounded overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round((done / plottable.length) * 100)}%` }} />
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <p className="text-red-400 text-xs bg-red-400/10 p-2 rounded border border-red-400/20">{error}</p>
+        )}
+      </div>
+    </div>
+  );
+}
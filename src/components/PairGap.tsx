@@ -0,0 +1,24 @@
+import { GitCompareArrows } from 'lucide-react';
+import type { MoralPoint } from '../lib/types';
+
+type PairGapProps = {
+  point: MoralPoint;
+  partner: MoralPoint;
+};
+
+// Numeric gap between the two modes of one comparison run (partner minus this point)
+export default function PairGap({ point, partner }: PairGapProps) {
+  const dx = partner.x - point.x;
+  const dy = partner.y - point.y;
+  const signed = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+
+  return (
+    <div className="mt-2 pt-2 border-t border-slate-800 flex items-center gap-3 text-[10px] font-mono text-slate-500">
+      <GitCompareArrows className="w-3 h-3 text-slate-400" />
+      <span>vs {partner.mode === 'seismograph' ? 'God Mode' : 'Logic'}:</span>
+      <span>ΔY {signed(dy)}</span>
+      <span>ΔX {signed(dx)}</span>
+      <span className="ml-auto text-slate-300" title="Euclidean distance between the two points">|Δ| {Math.hypot(dx, dy).toFixed(2)}</span>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { RotateCcw, X } from 'lucide-react';
+import { DEFAULT_TIMEOUT_SECONDS, availableProviders, defaultSettingsFor, getProvider } from '../lib/providers';
+import type { ProviderId, ProviderSettings } from '../lib/providers';
+import type { ValidationPolicy } from '../lib/validation';
+
+type ProviderSettingsPanelProps = {
+  settings: ProviderSettings;
+  envApiKey: string;
+  proxyUrl: string; // Set in proxy mode; direct providers are then not offered
+  onChange: (settings: ProviderSettings) => void;
+  onClose: () => void;
+};
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded p-2 text-xs text-slate-200 focus:ring-1 focus:ring-indigo-500 outline-none placeholder:text-slate-700";
+
+export default function ProviderSettingsPanel({ settings, envApiKey, proxyUrl, onChange, onClose }: ProviderSettingsPanelProps) {
+  const provider = getProvider(settings.providerId);
+
+  return (
+    <div className="absolute right-4 top-16 w-80 bg-slate-900 border border-indigo-500/30 p-4 rounded shadow-2xl z-50 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-semibold uppercase tracking-wider text-slate-400">Analysis Provider</h3>
+        <button onClick={onClose} className="text-slate-600 hover:text-slate-300" title="Close Settings">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-xs font-medium text-slate-400">Provider</label>
+        <select
+          value={settings.providerId}
+          onChange={(e) => onChange({ ...defaultSettingsFor(e.target.value as ProviderId, envApiKey, proxyUrl), validation: settings.validation, timeoutSeconds: settings.timeoutSeconds })}
+          className={inputClass}
+        >
+          {availableProviders(proxyUrl).map(p => (
+            <option key={p.id} value={p.id}>{p.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* The proxy picks its model on the server */}
+      {provider.id !== 'proxy' && (
+        <div className="space-y-1">
+          <label className="text-xs font-medium text-slate-400">Model</label>
+          <input
+            value={settings.model}
+            onChange={(e) => onChange({ ...settings, model: e.target.value })}
+            placeholder={provider.defaultModel}
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      {provider.id !== 'mock' && (
+        <div className="space-y-1">
+          <label className="text-xs font-medium text-slate-400">Endpoint</label>
+          <input
+            value={settings.endpoint}
+            onChange={(e) => onChange({ ...settings, endpoint: e.target.value })}
+            placeholder={provider.defaultEndpoint}
+            className={`${inputClass} font-mono`}
+          />
+        </div>
+      )}
+
+      {provider.needsApiKey && (
+        <div className="space-y-1">
+          <label className="text-xs font-medium text-slate-400">API Key</label>
+          <input
+            type="password"
+            value={settings.apiKey}
+            onChange={(e) => onChange({ ...settings, apiKey: e.target.value })}
+            placeholder="Kept in memory only"
+            className={`${inputClass} font-mono`}
+          />
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <label className="text-xs font-medium text-slate-400">Invalid Output</label>
+        <select
+          value={settings.validation}
+          onChange={(e) => onChange({ ...settings, validation: e.target.value as ValidationPolicy })}
+          className={inputClass}
+        >
+          <option value="repair">Repair (clamp to [-1, 1], fix intervals)</option>
+          <option value="reject">Reject (fail the analysis)</option>
+        </select>
+      </div>
+
+      {provider.id !== 'mock' && (
+        <div className="space-y-1">
+          <label className="text-xs font-medium text-slate-400">Timeout (seconds per request)</label>
+          <input
+            type="number"
+            min={1}
+            max={600}
+            value={settings.timeoutSeconds}
+            onChange={(e) => onChange({ ...settings, timeoutSeconds: Math.max(1, Number(e.target.value) || DEFAULT_TIMEOUT_SECONDS) })}
+            className={`${inputClass} font-mono`}
+          />
+        </div>
+      )}
+
+      <div className="pt-2 border-t border-slate-800 flex justify-between items-center">
+        <span className="text-[10px] text-slate-600 uppercase tracking-wide">
+          {provider.id === 'mock' ? 'Deterministic, no network' : provider.id === 'proxy' ? 'Key and Y-cache on the server' : 'Same prompts, any backend'}
+        </span>
+        <button
+          onClick={() => onChange({ ...defaultSettingsFor(settings.providerId, envApiKey, proxyUrl), validation: settings.validation, timeoutSeconds: settings.timeoutSeconds })}
+          className="text-[10px] text-slate-600 hover:text-slate-300 flex items-center gap-1 uppercase tracking-wide"
+        >
+          <RotateCcw className="w-3 h-3" /> Defaults
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, MessageSquareText } from 'lucide-react';
+import { anchorColor, findAnchor } from '../lib/frameworks';
+import type { MoralFramework } from '../lib/frameworks';
+import type { AxisRationale, PointRationale } from '../lib/types';
+
+type RationaleDetailsProps = {
+  rationale: PointRationale;
+  framework: MoralFramework;
+  compact?: boolean; // Tooltip variant: always open, no toggle
+};
+
+// Anchor names come from the model, so unknown ones are shown as-is in neutral slate
+const AnchorChip = ({ rationale, framework, axis }: { rationale: AxisRationale; framework: MoralFramework; axis: 'x' | 'y' }) => {
+  if (!rationale.anchor) return null;
+  const anchor = findAnchor(framework.axes[axis], rationale.anchor);
+  return (
+    <span
+      className="font-semibold whitespace-nowrap"
+      style={{ color: anchor ? anchorColor(anchor) : '#94a3b8' }}
+      title={anchor ? `Rubric anchor ${anchor.value > 0 ? '+' : ''}${anchor.value.toFixed(1)}` : 'Not one of this framework\'s anchors'}
+    >
+      {rationale.anchor}
+    </span>
+  );
+};
+
+const Rows = ({ rationale, framework }: { rationale: PointRationale; framework: MoralFramework }) => (
+  <div className="space-y-1">
+    {(['y', 'x'] as const).map(axis => rationale[axis] && (
+      <p key={axis} className="leading-snug">
+        <span className="text-slate-500 font-mono mr-1">{axis.toUpperCase()}</span>
+        <AnchorChip rationale={rationale[axis]!} framework={framework} axis={axis} />
+        {rationale[axis]!.anchor && rationale[axis]!.text && <span className="text-slate-600"> · </span>}
+        <span className="text-slate-400">{rationale[axis]!.text}</span>
+      </p>
+    ))}
+  </div>
+);
+
+export default function RationaleDetails({ rationale, framework, compact = false }: RationaleDetailsProps) {
+  const [open, setOpen] = useState(false);
+
+  if (compact) {
+    return (
+      <div className="mt-1 pt-1 border-t border-slate-800 text-[10px]">
+        <Rows rationale={rationale} framework={framework} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-2 pt-2 border-t border-slate-800 text-[11px]">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="text-[10px] text-slate-600 hover:text-slate-300 flex items-center gap-1 uppercase tracking-wide"
+      >
+        {open ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        <MessageSquareText className="w-3 h-3" /> Rationale
+      </button>
+      {open && (
+        <div className="mt-1">
+          <Rows rationale={rationale} framework={framework} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Check, RotateCcw, UserPen } from 'lucide-react';
+import { roundScore } from '../lib/review';
+import type { MoralPoint } from '../lib/types';
+
+type ReviewDetailsProps = {
+  point: MoralPoint;
+  onChange: (patch: Partial<MoralPoint>) => void;
+};
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded p-1.5 text-xs text-slate-200 focus:ring-1 focus:ring-indigo-500 outline-none placeholder:text-slate-700";
+const numberClass = "w-16 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-xs font-mono text-slate-200 outline-none";
+const smallButtonClass = "text-[10px] text-slate-600 hover:text-slate-300 flex items-center gap-1 uppercase tracking-wide disabled:opacity-30";
+
+const readScore = (text: string) => {
+  const value = Number(text);
+  return text.trim() !== '' && Number.isFinite(value) && value >= -1 && value <= 1 ? value : undefined;
+};
+
+// Typed human override plus the reviewer's name and notes for one history card
+export default function ReviewDetails({ point, onChange }: ReviewDetailsProps) {
+  const [open, setOpen] = useState(false);
+  const current = point.human ?? point;
+  const [draft, setDraft] = useState({ x: current.x.toString(), y: current.y.toString() });
+
+  const x = readScore(draft.x);
+  const y = readScore(draft.y);
+
+  const toggle = () => {
+    // Pick up drags made on the chart since the section was last opened
+    if (!open) setDraft({ x: current.x.toString(), y: current.y.toString() });
+    setOpen(prev => !prev);
+  };
+
+  const apply = () => {
+    if (x === undefined || y === undefined) return;
+    onChange({ human: { x: roundScore(x), y: roundScore(y), updatedAt: Date.now() } });
+  };
+
+  const reset = () => {
+    onChange({ human: undefined });
+    setDraft({ x: point.x.toString(), y: point.y.toString() });
+  };
+
+  return (
+    <div className="mt-2 pt-2 border-t border-slate-800 text-[11px]">
+      <button onClick={toggle} className="text-[10px] text-slate-600 hover:text-slate-300 flex items-center gap-1 uppercase tracking-wide">
+        {open ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        <UserPen className="w-3 h-3" /> Review
+        {point.reviewer && <span className="normal-case tracking-normal text-slate-500">· {point.reviewer}</span>}
+      </button>
+      {open && (
+        <div className="mt-2 space-y-2">
+          <div className="flex items-center gap-2 text-[10px] text-slate-500">
+            <label className="flex items-center gap-1">Y <input value={draft.y} onChange={(e) => setDraft({ ...draft, y: e.target.value })} className={numberClass} /></label>
+            <label className="flex items-center gap-1">X <input value={draft.x} onChange={(e) => setDraft({ ...draft, x: e.target.value })} className={numberClass} /></label>
+            <button onClick={apply} disabled={x === undefined || y === undefined} className={smallButtonClass} title="Set as human judgment">
+              <Check className="w-3 h-3" /> Set
+            </button>
+            <button onClick={reset} disabled={!point.human} className={smallButtonClass} title="Drop the override and use the model's placement">
+              <RotateCcw className="w-3 h-3" /> Model
+            </button>
+          </div>
+          <p className="text-[10px] font-mono text-slate-600">
+            Model: Y {point.y.toFixed(2)} · X {point.x.toFixed(2)}
+          </p>
+          <input
+            value={point.reviewer ?? ''}
+            onChange={(e) => onChange({ reviewer: e.target.value || undefined })}
+            placeholder="Reviewer"
+            className={inputClass}
+          />
+          <textarea
+            value={point.notes ?? ''}
+            onChange={(e) => onChange({ notes: e.target.value || undefined })}
+            placeholder="Notes"
+            className={`${inputClass} h-16 resize-none`}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, History, Spline } from 'lucide-react';
+import { runsOf } from '../lib/runs';
+import type { MoralPoint } from '../lib/types';
+
+type RunHistoryProps = {
+  point: MoralPoint;
+  showTrail: boolean;
+  onToggleTrail: () => void;
+};
+
+const signed = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+
+// Expandable list of a scenario's analyses, oldest first, with the change against the first run
+export default function RunHistory({ point, showTrail, onToggleTrail }: RunHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const runs = runsOf(point);
+  if (runs.length < 2) return null;
+  const first = runs[0];
+
+  return (
+    <div className="mt-2 pt-2 border-t border-slate-800 text-[11px]">
+      <div className="flex items-center justify-between">
+        <button onClick={() => setOpen(prev => !prev)} className="text-[10px] text-slate-600 hover:text-slate-300 flex items-center gap-1 uppercase tracking-wide">
+          {open ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+          <History className="w-3 h-3" /> Runs ({runs.length})
+        </button>
+        <button
+          onClick={onToggleTrail}
+          className={`text-[10px] hover:text-indigo-400 flex items-center gap-1 uppercase tracking-wide ${showTrail ? 'text-indigo-400' : 'text-slate-600'}`}
+          title="Show the run history as a trail on the chart"
+        >
+          <Spline className="w-3 h-3" /> Trail
+        </button>
+      </div>
+      {open && (
+        <div className="mt-2 grid grid-cols-[auto_1fr_auto_auto] gap-x-3 gap-y-1 items-baseline">
+          {runs.map((run, i) => (
+            <div key={i} className="contents">
+              <span className="font-mono text-slate-600">#{i + 1}</span>
+              <span className="text-slate-500 truncate" title={run.promptVersion && `Prompt ${run.promptVersion} · framework v${run.frameworkVersion}`}>
+                {run.ranAt ? new Date(run.ranAt).toLocaleString() : 'original'}
+                {run.model && ` · ${run.model}`}
+                {run.promptVersion && ` · ${run.promptVersion}`}
+              </span>
+              <span className="font-mono text-slate-300">Y {run.y.toFixed(2)}{i > 0 && <span className="text-slate-500"> ({signed(run.y - first.y)})</span>}</span>
+              <span className="font-mono text-slate-300">X {run.x.toFixed(2)}{i > 0 && <span className="text-slate-500"> ({signed(run.x - first.x)})</span>}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
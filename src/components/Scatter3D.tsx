@@ -0,0 +1,121 @@
+import { useRef, useState } from 'react';
+import type { PointerEvent as ReactPointerEvent } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { displayedCoords } from '../lib/review';
+import type { MoralPoint } from '../lib/types';
+
+type Scatter3DProps = {
+  points: MoralPoint[]; // Points without a magnitude are left out
+  colorFor: (point: MoralPoint) => string;
+  axisNames: { x: string; y: string };
+};
+
+type Vec3 = [number, number, number];
+
+const SCALE = 120;
+const DEFAULT_VIEW = { yaw: -0.6, pitch: 0.35 };
+const MAX_PITCH = 1.4;
+
+// Unit cube: X = intent, Y = action (up), Z = magnitude mapped from [0, 1] to [-1, 1]
+const CORNERS: Vec3[] = [-1, 1].flatMap(x => [-1, 1].flatMap(y => [-1, 1].map(z => [x, y, z] as Vec3)));
+const EDGES = CORNERS.flatMap((a, i) => CORNERS.slice(i + 1)
+  .filter(b => a.filter((v, axis) => v !== b[axis]).length === 1)
+  .map(b => [a, b] as const));
+
+// Yaw around the vertical axis, then pitch towards the viewer; returns screen x / y and depth
+const project = ([x, y, z]: Vec3, yaw: number, pitch: number) => {
+  const x1 = x * Math.cos(yaw) + z * Math.sin(yaw);
+  const z1 = -x * Math.sin(yaw) + z * Math.cos(yaw);
+  const y2 = y * Math.cos(pitch) - z1 * Math.sin(pitch);
+  const depth = y * Math.sin(pitch) + z1 * Math.cos(pitch);
+  return { sx: x1 * SCALE, sy: -y2 * SCALE, depth };
+};
+
+// Rotatable 3D scatter of action, intent and consequence magnitude; drag to turn the cube
+export default function Scatter3D({ points, colorFor, axisNames }: Scatter3DProps) {
+  const [view, setView] = useState(DEFAULT_VIEW);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  const withZ = points.filter(p => p.z !== undefined);
+  const at = (v: Vec3) => project(v, view.yaw, view.pitch);
+
+  const placed = withZ
+    .map(p => {
+      const { x, y } = displayedCoords(p);
+      const z = p.z! * 2 - 1;
+      return { point: p, at: at([x, y, z]), floor: at([x, -1, z]) };
+    })
+    .sort((a, b) => a.at.depth - b.at.depth); // Far points first so near ones are drawn on top
+
+  const onPointerDown = (e: ReactPointerEvent<SVGSVGElement>) => {
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const onPointerMove = (e: ReactPointerEvent<SVGSVGElement>) => {
+    const start = dragRef.current;
+    if (!start) return;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    setView(prev => ({
+      yaw: prev.yaw + (e.clientX - start.x) * 0.01,
+      pitch: Math.max(-MAX_PITCH, Math.min(MAX_PITCH, prev.pitch + (e.clientY - start.y) * 0.01))
+    }));
+  };
+
+  const label = (v: Vec3, text: string, anchor: 'start' | 'middle' | 'end' = 'middle') => {
+    const p = at(v);
+    return <text x={p.sx} y={p.sy} fill="#94a3b8" fontSize={11} textAnchor={anchor}>{text}</text>;
+  };
+
+  const axis = (from: Vec3, to: Vec3) => {
+    const a = at(from);
+    const b = at(to);
+    return <line x1={a.sx} y1={a.sy} x2={b.sx} y2={b.sy} stroke="#cbd5e1" strokeWidth={1.5} />;
+  };
+
+  return (
+    <div className="relative w-full h-full">
+      <svg
+        viewBox="-210 -190 420 380"
+        className="w-full h-full cursor-grab active:cursor-grabbing select-none"
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={() => { dragRef.current = null; }}
+      >
+        {EDGES.map(([a, b], i) => {
+          const p = at(a);
+          const q = at(b);
+          return <line key={i} x1={p.sx} y1={p.sy} x2={q.sx} y2={q.sy} stroke="#334155" strokeDasharray="3 3" />;
+        })}
+        {/* Zero planes of the two moral axes, at the low-magnitude face */}
+        {axis([-1, 0, -1], [1, 0, -1])}
+        {axis([0, -1, -1], [0, 1, -1])}
+        {label([1.25, 0, -1], axisNames.x)}
+        {label([0, 1.2, -1], axisNames.y)}
+        {label([-1.1, -1.1, -1], 'Magnitude 0', 'end')}
+        {label([-1.1, -1.1, 1], '1', 'end')}
+
+        {placed.map(({ point, at: p, floor }) => (
+          <g key={point.id}>
+            <line x1={p.sx} y1={p.sy} x2={floor.sx} y2={floor.sy} stroke={colorFor(point)} strokeOpacity={0.3} />
+            <circle cx={p.sx} cy={p.sy} r={5} fill={colorFor(point)} stroke="#0f172a" strokeWidth={1}>
+              <title>{`${point.label}\n${point.action} — ${point.intent}\nY ${point.y.toFixed(2)} · X ${point.x.toFixed(2)} · magnitude ${point.z!.toFixed(2)}`}</title>
+            </circle>
+          </g>
+        ))}
+      </svg>
+
+      <div className="absolute bottom-0 left-0 flex items-center gap-3 text-[10px] text-slate-600">
+        <button
+          onClick={() => setView(DEFAULT_VIEW)}
+          className="text-[10px] text-slate-600 hover:text-slate-300 flex items-center gap-1 uppercase tracking-wide"
+          title="Reset Rotation"
+        >
+          <RotateCcw className="w-3 h-3" /> Reset
+        </button>
+        <span>Drag to rotate · drop lines end on the action floor</span>
+        {withZ.length < points.length && <span>{points.length - withZ.length} scenario(s) without magnitude not shown</span>}
+      </div>
+    </div>
+  );
+}
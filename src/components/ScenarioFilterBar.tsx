@@ -0,0 +1,92 @@
+import { Search, X } from 'lucide-react';
+import { EMPTY_FILTER, NOISE_BUCKETS, isFilterActive } from '../lib/filters';
+import type { NoiseBucket, ScenarioFilter } from '../lib/filters';
+import { QUADRANT_ORDER } from '../lib/frameworks';
+import type { MoralFramework, QuadrantKey } from '../lib/frameworks';
+
+type ScenarioFilterBarProps = {
+  filter: ScenarioFilter;
+  tags: string[];            // Every tag used by the points in view
+  framework: MoralFramework; // Quadrant names, as on the chart
+  matched: number;
+  total: number;
+  onChange: (filter: ScenarioFilter) => void;
+};
+
+const chipClass = (active: boolean) =>
+  `px-1.5 py-0.5 rounded border transition-colors ${active ? 'bg-indigo-900 text-indigo-300 border-indigo-700' : 'border-slate-800 text-slate-500 hover:text-slate-300'}`;
+
+const toggle = <T,>(list: T[], value: T) => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+// Search and filters for the scenario list; the chart draws the same subset
+export default function ScenarioFilterBar({ filter, tags, framework, matched, total, onChange }: ScenarioFilterBarProps) {
+  const active = isFilterActive(filter);
+  // Keep selected tags visible even after their last point was removed, so they can be cleared
+  const tagOptions = [...new Set([...tags, ...filter.tags])].sort();
+
+  return (
+    <div className="space-y-2 text-[10px]">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="w-3 h-3 text-slate-600 absolute left-2 top-1/2 -translate-y-1/2" />
+          <input
+            value={filter.query}
+            onChange={(e) => onChange({ ...filter, query: e.target.value })}
+            placeholder="Search action, intent or label"
+            className="w-full bg-slate-950 border border-slate-700 rounded py-1 pl-6 pr-2 text-xs text-slate-200 focus:ring-1 focus:ring-indigo-500 outline-none placeholder:text-slate-700"
+          />
+        </div>
+        <select
+          value={filter.noise}
+          onChange={(e) => onChange({ ...filter, noise: e.target.value as NoiseBucket })}
+          className="bg-slate-950 border border-slate-700 rounded p-1 text-[10px] text-slate-300 outline-none"
+          title="Filter by noise width (widest reported interval)"
+        >
+          {NOISE_BUCKETS.map(b => <option key={b.id} value={b.id}>{b.label}</option>)}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1 uppercase font-bold">
+        {QUADRANT_ORDER.map((key: QuadrantKey) => (
+          <button
+            key={key}
+            onClick={() => onChange({ ...filter, quadrants: toggle(filter.quadrants, key) })}
+            className={chipClass(filter.quadrants.includes(key))}
+            style={filter.quadrants.includes(key) ? undefined : { color: framework.quadrants[key].color }}
+          >
+            {framework.quadrants[key].label}
+          </button>
+        ))}
+      </div>
+
+      {tagOptions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          {tagOptions.map(tag => (
+            <button key={tag} onClick={() => onChange({ ...filter, tags: toggle(filter.tags, tag) })} className={chipClass(filter.tags.includes(tag))}>
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {active && (
+        <div className="flex items-center gap-2 text-slate-500">
+          <span className="font-mono">{matched} of {total} match</span>
+          <span className="ml-auto uppercase tracking-wide">Others:</span>
+          {(['dim', 'hide'] as const).map(option => (
+            <button key={option} onClick={() => onChange({ ...filter, unmatched: option })} className={`uppercase font-bold ${chipClass(filter.unmatched === option)}`}>
+              {option === 'dim' ? 'Dimmed' : 'Hidden'}
+            </button>
+          ))}
+          <button
+            onClick={() => onChange({ ...EMPTY_FILTER, unmatched: filter.unmatched })}
+            className="text-slate-600 hover:text-slate-300 flex items-center gap-1 uppercase tracking-wide"
+            title="Clear Filters"
+          >
+            <X className="w-3 h-3" /> Clear
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { BarChart3, ChevronDown, ChevronRight } from 'lucide-react';
+import { scenarioStats } from '../lib/stats';
+import type { AxisPair, NoiseWidth } from '../lib/stats';
+import type { MoralFramework } from '../lib/frameworks';
+import type { MoralPoint } from '../lib/types';
+
+type StatsPanelProps = {
+  points: MoralPoint[];       // The scenarios currently shown (respects the mode filter)
+  framework: MoralFramework;  // Supplies quadrant labels and colours, as on the chart
+  open: boolean;
+  onToggle: () => void;
+};
+
+const pair = (value: AxisPair | null) => value ? `${value.y.toFixed(2)} / ${value.x.toFixed(2)}` : '—';
+
+const width = (noise: NoiseWidth) => noise.mean === null ? '—' : `${noise.mean.toFixed(2)} (n=${noise.count})`;
+
+// Aggregate view of the plotted set; recomputed on every render, so it follows additions and removals
+export default function StatsPanel({ points, framework, open, onToggle }: StatsPanelProps) {
+  const stats = scenarioStats(points);
+
+  return (
+    <div className="border border-slate-800 rounded bg-slate-900/60">
+      <button onClick={onToggle} className="w-full flex items-center gap-2 p-2 text-[10px] uppercase tracking-wide font-bold text-slate-500 hover:text-slate-300">
+        {open ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        <BarChart3 className="w-3 h-3" /> Statistics
+        <span className="ml-auto font-mono normal-case font-normal">{stats.total} scenario(s)</span>
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-3">
+          {stats.total === 0 ? (
+            <p className="text-xs text-slate-600 italic">Nothing plotted yet.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-[1fr_auto_auto_auto_auto] gap-x-3 gap-y-1 text-xs items-baseline">
+                <span className="text-[10px] uppercase tracking-wide text-slate-600">Quadrant</span>
+                <span className="text-[10px] uppercase tracking-wide text-slate-600 text-right">n</span>
+                <span className="text-[10px] uppercase tracking-wide text-slate-600 text-right">%</span>
+                <span className="text-[10px] uppercase tracking-wide text-slate-600" title="Mean position, Y / X">Centroid</span>
+                <span className="text-[10px] uppercase tracking-wide text-slate-600" title="Standard deviation, Y / X">Spread</span>
+                {stats.quadrants.map(q => (
+                  <div key={q.quadrant} className="contents">
+                    <span className="font-semibold truncate" style={{ color: framework.quadrants[q.quadrant].color }}>
+                      {framework.quadrants[q.quadrant].label}
+                    </span>
+                    <span className="font-mono text-slate-300 text-right">{q.count}</span>
+                    <span className="font-mono text-slate-400 text-right">{Math.round(q.share * 100)}%</span>
+                    <span className="font-mono text-slate-400">{pair(q.centroid)}</span>
+                    <span className="font-mono text-slate-500">{pair(q.spread)}</span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="pt-2 border-t border-slate-800 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+                <span className="text-slate-500">Centroid (Y / X)</span>
+                <span className="font-mono text-slate-300">{pair(stats.centroid)}</span>
+                <span className="text-slate-500">Avg noise width Y</span>
+                <span className="font-mono text-slate-300">{width(stats.noise.y)}</span>
+                <span className="text-slate-500">Avg noise width X</span>
+                <span className="font-mono text-slate-300">{width(stats.noise.x)}</span>
+              </div>
+              <p className="text-[10px] text-slate-600">Marginal histograms of both axes are drawn along the chart edges while this panel is open.</p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
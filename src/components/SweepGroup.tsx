@@ -0,0 +1,40 @@
+import { useState } from 'react';
+import type { ReactNode } from 'react';
+import { ChevronDown, ChevronRight, MoveHorizontal, Trash2 } from 'lucide-react';
+import type { MoralPoint } from '../lib/types';
+
+type SweepGroupProps = {
+  members: MoralPoint[]; // In ladder order
+  color: string;
+  onRemove?: () => void; // Omitted in read-only views
+  children: ReactNode;   // The members' history cards
+};
+
+// One intent sweep as a single, collapsible entry of the scenario list
+export default function SweepGroup({ members, color, onRemove, children }: SweepGroupProps) {
+  const [open, setOpen] = useState(false);
+  const xs = members.map(p => p.x);
+
+  return (
+    <div className="border border-slate-800 rounded bg-slate-900/60">
+      <div className="flex items-center gap-2 p-3 text-sm">
+        <button onClick={() => setOpen(prev => !prev)} className="text-slate-500 hover:text-slate-200" title={open ? 'Collapse Sweep' : 'Expand Sweep'}>
+          {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        </button>
+        <MoveHorizontal className="w-4 h-4 shrink-0" style={{ color }} />
+        <div className="min-w-0 flex-1">
+          <div className="font-semibold text-slate-200 truncate">{members[0].action}</div>
+          <div className="text-[10px] font-mono text-slate-500">
+            {members.length} intents · Y {members[0].y.toFixed(2)} · X {Math.min(...xs).toFixed(2)} → {Math.max(...xs).toFixed(2)}
+          </div>
+        </div>
+        {onRemove && (
+          <button onClick={onRemove} className="text-slate-600 hover:text-red-400 transition-colors" title="Remove Sweep">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      {open && <div className="px-2 pb-2 space-y-2">{children}</div>}
+    </div>
+  );
+}
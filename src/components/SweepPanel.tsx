@@ -0,0 +1,139 @@
+import { useRef, useState } from 'react';
+import { MoveHorizontal, Play, RefreshCw, Square, WandSparkles, X } from 'lucide-react';
+import { MAX_SWEEP_STEPS, MIN_SWEEP_STEPS, parseIntentList } from '../lib/sweep';
+import { describeAnalysisError } from '../lib/errors';
+
+type SweepPanelProps = {
+  visible: boolean;
+  suggest: (action: string, steps: number) => Promise<string[]>;
+  // Analyzes the intents in order; resolves with the number plotted before stopping or finishing
+  run: (action: string, intents: string[], onStep: (done: number) => void, signal: AbortSignal) => Promise<number>;
+  onClose: () => void;
+};
+
+type SweepStatus = 'idle' | 'suggesting' | 'running';
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded p-2 text-xs text-slate-200 focus:ring-1 focus:ring-indigo-500 outline-none placeholder:text-slate-700";
+const buttonClass = "text-[10px] px-2 py-1 rounded uppercase font-bold flex items-center gap-1 border border-slate-700 bg-slate-800 text-slate-300 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed";
+
+export default function SweepPanel({ visible, suggest, run, onClose }: SweepPanelProps) {
+  const [action, setAction] = useState('');
+  const [source, setSource] = useState('');
+  const [steps, setSteps] = useState(7);
+  const [status, setStatus] = useState<SweepStatus>('idle');
+  const [done, setDone] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null); // Aborted by Stop, cancelling the call in flight
+
+  const intents = parseIntentList(source).slice(0, MAX_SWEEP_STEPS);
+  const busy = status !== 'idle';
+
+  const generate = async () => {
+    setStatus('suggesting');
+    setError(null);
+    try {
+      setSource((await suggest(action.trim(), steps)).join('\n'));
+    } catch (err) {
+      setError(describeAnalysisError(err));
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const start = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setStatus('running');
+    setDone(0);
+    setError(null);
+    try {
+      await run(action.trim(), intents, setDone, controller.signal);
+    } catch (err) {
+      setError(describeAnalysisError(err));
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  return (
+    <div className={`absolute inset-y-0 right-0 w-[420px] bg-slate-900 border-l border-indigo-500/30 shadow-2xl z-40 flex flex-col ${visible ? '' : 'hidden'}`}>
+      <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-slate-400 flex items-center gap-2">
+          <MoveHorizontal className="w-4 h-4 text-indigo-400" /> Intent Sweep
+        </h2>
+        <button onClick={onClose} className="text-slate-600 hover:text-slate-300" title="Close Sweep Panel">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-3 overflow-y-auto">
+        <div className="space-y-1">
+          <label className="text-xs font-medium text-slate-400">Action (kept fixed)</label>
+          <textarea
+            value={action}
+            onChange={(e) => setAction(e.target.value)}
+            disabled={busy}
+            placeholder="e.g. I lie to my friend"
+            className={`${inputClass} h-14 resize-none`}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <label className="text-xs font-medium text-slate-400">Intents, one per line</label>
+            <span className="flex items-center gap-2">
+              <input
+                type="number"
+                min={MIN_SWEEP_STEPS}
+                max={MAX_SWEEP_STEPS}
+                value={steps}
+                disabled={busy}
+                onChange={(e) => setSteps(Math.min(MAX_SWEEP_STEPS, Math.max(MIN_SWEEP_STEPS, Number(e.target.value) || MIN_SWEEP_STEPS)))}
+                className="w-12 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-xs text-slate-200 outline-none"
+                title="Number of intents to generate"
+              />
+              <button onClick={generate} disabled={busy || !action.trim()} className={buttonClass} title="Let the model write a graded ladder of intents">
+                {status === 'suggesting' ? <RefreshCw className="w-3 h-3 animate-spin" /> : <WandSparkles className="w-3 h-3" />} Generate
+              </button>
+            </span>
+          </div>
+          <textarea
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            disabled={busy}
+            placeholder={'Just for fun\nFor the money\nOut of duty\nTo protect my family\nTo save everyone'}
+            className={`${inputClass} h-40 resize-none`}
+          />
+          <p className="text-[10px] text-slate-600">
+            {intents.length} intent(s), plotted in this order · max {MAX_SWEEP_STEPS}
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <button onClick={start} disabled={busy || !action.trim() || intents.length < 2} className={buttonClass}>
+            <Play className="w-3 h-3" /> Run Sweep
+          </button>
+          <button onClick={() => controllerRef.current?.abort()} disabled={status !== 'running'} className={buttonClass}>
+            <Square className="w-3 h-3" /> Stop
+          </button>
+        </div>
+
+        {status === 'running' && (
+          <div className="space-y-1">
+            <div className="flex justify-between text-[10px] uppercase tracking-wide text-slate-500">
+              <span>running</span>
+              <span>{done} / {intents.length}</span>
+            </div>
+            <div className="h-1.5 bg-slate-800 rounded overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round((done / intents.length) * 100)}%` }} />
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <p className="text-red-400 text-xs bg-red-400/10 p-2 rounded border border-red-400/20">{error}</p>
+        )}
+      </div>
+    </div>
+  );
+}
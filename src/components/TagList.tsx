@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { Plus, Tag, X } from 'lucide-react';
+import { parseTags } from '../lib/filters';
+
+type TagListProps = {
+  tags: string[];
+  readOnly?: boolean;
+  onChange: (tags: string[]) => void;
+  onSelect?: (tag: string) => void; // Clicking a chip filters by that tag
+};
+
+// Tag chips of one history card, with an inline field that accepts several comma-separated tags
+export default function TagList({ tags, readOnly, onChange, onSelect }: TagListProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft) onChange([...new Set([...tags, ...parseTags(draft)])]);
+    setDraft(null);
+  };
+
+  if (readOnly && tags.length === 0) return null;
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-1 text-[10px]">
+      <Tag className="w-3 h-3 text-slate-600" />
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center gap-0.5 px-1.5 py-0.5 rounded bg-slate-800 border border-slate-700 text-slate-400">
+          <button onClick={() => onSelect?.(tag)} className="hover:text-indigo-300" title={`Filter by "${tag}"`}>{tag}</button>
+          {!readOnly && (
+            <button onClick={() => onChange(tags.filter(t => t !== tag))} className="text-slate-600 hover:text-red-400" title="Remove Tag">
+              <X className="w-2.5 h-2.5" />
+            </button>
+          )}
+        </span>
+      ))}
+      {!readOnly && (draft === null ? (
+        <button onClick={() => setDraft('')} className="text-slate-600 hover:text-slate-300 flex items-center gap-0.5 uppercase tracking-wide" title="Add Tags">
+          <Plus className="w-3 h-3" /> Tag
+        </button>
+      ) : (
+        <input
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commit();
+            if (e.key === 'Escape') setDraft(null);
+          }}
+          placeholder="tag, another tag"
+          className="w-32 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500 placeholder:text-slate-700"
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { usePlotArea } from 'recharts';
+import { DENSITY_CELL, skewedContourPath } from '../lib/uncertainty';
+import type { DensityMark, NoiseMark, NoiseStyle } from '../lib/uncertainty';
+
+type UncertaintyLayerProps = {
+  noise: NoiseMark[];      // Scenarios whose noise is switched on
+  style: NoiseStyle;
+  density: DensityMark[];  // Precomputed heatmaps of ensemble samples
+};
+
+const CAP = 4; // Half-width of an error bar cap, in pixels
+
+// Rendered inside the ScatterChart (both axes span [-1, 1]); nothing here takes pointer events
+export default function UncertaintyLayer({ noise, style, density }: UncertaintyLayerProps) {
+  const plot = usePlotArea();
+  if (!plot) return null;
+
+  const px = (x: number) => plot.x + ((x + 1) / 2) * plot.width;
+  const py = (y: number) => plot.y + ((1 - y) / 2) * plot.height;
+  const cellWidth = (DENSITY_CELL / 2) * plot.width;
+  const cellHeight = (DENSITY_CELL / 2) * plot.height;
+
+  return (
+    <g pointerEvents="none">
+      {density.map(({ id, cells, color }) => (
+        <g key={`density-${id}`} fill={color}>
+          {cells.map(cell => (
+            <rect
+              key={`${cell.x}:${cell.y}`}
+              x={px(cell.x)}
+              y={py(cell.y + DENSITY_CELL)}
+              width={cellWidth}
+              height={cellHeight}
+              fillOpacity={cell.density * 0.45}
+            />
+          ))}
+        </g>
+      ))}
+
+      {noise.map(({ id, x, y, reach, color }) => {
+        const cx = px(x);
+        const cy = py(y);
+        // Reach in pixels; the y axis grows upwards on screen
+        const pixels = {
+          left: cx - px(x - reach.left),
+          right: px(x + reach.right) - cx,
+          up: cy - py(y + reach.up),
+          down: py(y - reach.down) - cy
+        };
+
+        if (style === 'contour') {
+          return (
+            <path
+              key={`noise-${id}`}
+              d={skewedContourPath(cx, cy, pixels)}
+              fill={color}
+              fillOpacity={0.2}
+              stroke={color}
+              strokeWidth={1}
+              strokeDasharray="4 4"
+              strokeOpacity={0.6}
+            />
+          );
+        }
+        return (
+          <g key={`noise-${id}`} stroke={color} strokeWidth={1.5} strokeOpacity={0.8}>
+            {(reach.left > 0 || reach.right > 0) && (
+              <>
+                <line x1={cx - pixels.left} y1={cy} x2={cx + pixels.right} y2={cy} />
+                <line x1={cx - pixels.left} y1={cy - CAP} x2={cx - pixels.left} y2={cy + CAP} />
+                <line x1={cx + pixels.right} y1={cy - CAP} x2={cx + pixels.right} y2={cy + CAP} />
+              </>
+            )}
+            {(reach.up > 0 || reach.down > 0) && (
+              <>
+                <line x1={cx} y1={cy - pixels.up} x2={cx} y2={cy + pixels.down} />
+                <line x1={cx - CAP} y1={cy - pixels.up} x2={cx + CAP} y2={cy - pixels.up} />
+                <line x1={cx - CAP} y1={cy + pixels.down} x2={cx + CAP} y2={cy + pixels.down} />
+              </>
+            )}
+          </g>
+        );
+      })}
+    </g>
+  );
+}
@@ -0,0 +1,67 @@
+import { Copy, FolderOpen, Plus, Trash2 } from 'lucide-react';
+import type { Workspace } from '../lib/workspaces';
+
+type WorkspaceSwitcherProps = {
+  workspaces: Workspace[];
+  activeId: string;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onDuplicate: (name: string) => void;
+  onDelete: (id: string) => void;
+};
+
+export default function WorkspaceSwitcher({ workspaces, activeId, onSwitch, onCreate, onDuplicate, onDelete }: WorkspaceSwitcherProps) {
+  const active = workspaces.find(w => w.id === activeId);
+
+  const askName = (suggestion: string) => {
+    const name = window.prompt("Workspace name", suggestion)?.trim();
+    return name || null;
+  };
+
+  const handleCreate = () => {
+    const name = askName(`Workspace ${workspaces.length + 1}`);
+    if (name) onCreate(name);
+  };
+
+  const handleDuplicate = () => {
+    const name = askName(`${active?.name ?? 'Workspace'} (copy)`);
+    if (name) onDuplicate(name);
+  };
+
+  const handleDelete = () => {
+    if (!active) return;
+    if (window.confirm(`Delete workspace "${active.name}" and its ${active.points.length} scenario(s)?`)) {
+      onDelete(active.id);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1 bg-slate-800 border border-slate-700 rounded px-2 py-1">
+      <FolderOpen className="w-3 h-3 text-slate-500" />
+      <select
+        value={activeId}
+        onChange={(e) => onSwitch(e.target.value)}
+        className="bg-transparent text-[10px] uppercase font-bold text-slate-300 outline-none max-w-[160px]"
+        title="Switch Workspace"
+      >
+        {workspaces.map(w => (
+          <option key={w.id} value={w.id} className="bg-slate-900 normal-case">{w.name} ({w.points.length})</option>
+        ))}
+      </select>
+      <button onClick={handleCreate} className="text-slate-500 hover:text-indigo-400 transition-colors" title="New Workspace">
+        <Plus className="w-3 h-3" />
+      </button>
+      <button onClick={handleDuplicate} className="text-slate-500 hover:text-indigo-400 transition-colors" title="Duplicate Workspace">
+        <Copy className="w-3 h-3" />
+      </button>
+      <button
+        onClick={handleDelete}
+        disabled={workspaces.length <= 1}
+        className="text-slate-500 hover:text-red-400 transition-colors disabled:opacity-30 disabled:hover:text-slate-500"
+        title="Delete Workspace"
+      >
+        <Trash2 className="w-3 h-3" />
+      </button>
+    </div>
+  );
+}
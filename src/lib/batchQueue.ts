@@ -0,0 +1,166 @@
+import { newId } from './ids';
+import { sleep } from './retry';
+import type { ScenarioPair } from './scenarioFiles';
+
+// --- Batch Types ---
+export type BatchRowStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export type BatchRow = ScenarioPair & {
+  id: string;
+  status: BatchRowStatus;
+  attempts: number;
+  error?: string;
+};
+
+export type BatchState = 'idle' | 'running' | 'paused' | 'cancelled' | 'finished';
+
+export type BatchOptions = {
+  concurrency: number;
+  requestsPerMinute: number; // 0 = unlimited
+};
+
+export type BatchQueue = {
+  start: () => void;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  retryFailed: () => void;
+};
+
+type BatchQueueConfig<T> = {
+  pairs: ScenarioPair[];
+  options: BatchOptions;
+  // Runs the (possibly slow) model call for one row; the signal fires when the batch is cancelled
+  analyze: (row: BatchRow, signal: AbortSignal) => Promise<T>;
+  // Applies a finished result; skipped for rows that were cancelled while in flight
+  commit: (row: BatchRow, result: T) => void;
+  onUpdate: (rows: BatchRow[], state: BatchState) => void;
+};
+
+// Framework-independent job queue: a fixed pool of workers pulls pending rows,
+// spacing request starts to honour the rate limit.
+export const createBatchQueue = <T>({ pairs, options, analyze, commit, onUpdate }: BatchQueueConfig<T>): BatchQueue => {
+  let rows: BatchRow[] = pairs.map(pair => ({ ...pair, id: newId(), status: 'pending', attempts: 0 }));
+  let state: BatchState = 'idle';
+  let activeWorkers = 0;
+  let nextSlotAt = 0;
+  let lastStartAt = 0; // When a request last actually went out
+  const inFlight = new Map<string, AbortController>(); // Row id -> its running request
+
+  const emit = () => onUpdate(rows, state);
+  // Read through a function: state changes from other callers while a worker is awaiting
+  const currentState = (): BatchState => state;
+
+  const patch = (id: string, changes: Partial<BatchRow>) => {
+    rows = rows.map(r => r.id === id ? { ...r, ...changes } : r);
+  };
+
+  // Only the attempt a row is still running may settle it: cancel() settles in-flight rows itself,
+  // and a retry may already have handed the row to another worker
+  const stillRunning = (attempt: BatchRow) =>
+    rows.some(r => r.id === attempt.id && r.status === 'running' && r.attempts === attempt.attempts);
+
+  // Reserve the next start slot before waiting so parallel workers stay spaced out
+  const waitForSlot = async (signal: AbortSignal) => {
+    if (options.requestsPerMinute <= 0) return;
+    const interval = 60000 / options.requestsPerMinute;
+    const now = Date.now();
+    const startAt = Math.max(now, nextSlotAt);
+    nextSlotAt = startAt + interval;
+    // A cancel ends the wait early; the worker sees the aborted signal next
+    if (startAt > now) await sleep(startAt - now, signal).catch(() => undefined);
+  };
+
+  const settle = () => {
+    if (activeWorkers > 0 || state !== 'running') return;
+    if (!rows.some(r => r.status === 'pending')) {
+      state = 'finished';
+      emit();
+    }
+  };
+
+  const worker = async () => {
+    activeWorkers++;
+    while (state === 'running') {
+      const row = rows.find(r => r.status === 'pending');
+      if (!row) break;
+
+      const attempt: BatchRow = { ...row, status: 'running', attempts: row.attempts + 1, error: undefined };
+      patch(row.id, attempt);
+      emit();
+
+      const controller = new AbortController();
+      inFlight.set(row.id, controller);
+      try {
+        await waitForSlot(controller.signal);
+        if (controller.signal.aborted || currentState() !== 'running') {
+          // Paused while waiting for a slot: hand the row back untouched
+          if (stillRunning(attempt)) patch(row.id, { status: 'pending', attempts: row.attempts });
+          break;
+        }
+
+        lastStartAt = Date.now();
+        const result = await analyze(attempt, controller.signal);
+        if (stillRunning(attempt)) {
+          commit(attempt, result);
+          patch(row.id, { status: 'done' });
+        }
+      } catch (err) {
+        // A cancel aborts the request, so its rejection is not a failure of the row
+        if (stillRunning(attempt)) patch(row.id, { status: 'failed', error: err instanceof Error ? err.message : String(err) });
+      } finally {
+        if (inFlight.get(row.id) === controller) inFlight.delete(row.id);
+      }
+      emit();
+    }
+    activeWorkers--;
+    emit();
+    settle();
+  };
+
+  const spawn = () => {
+    const wanted = Math.max(1, options.concurrency) - activeWorkers;
+    for (let i = 0; i < wanted; i++) void worker();
+  };
+
+  const run = () => {
+    state = 'running';
+    emit();
+    spawn();
+    settle();
+  };
+
+  return {
+    start: () => {
+      if (state === 'idle' || state === 'finished') run();
+    },
+    pause: () => {
+      if (state !== 'running') return;
+      state = 'paused';
+      emit();
+    },
+    resume: () => {
+      if (state === 'paused') run();
+    },
+    cancel: () => {
+      if (state === 'cancelled') return;
+      state = 'cancelled';
+      // Rows in flight are settled here rather than when their request unwinds, so the table is final at once
+      rows = rows.map(r => r.status === 'pending' || r.status === 'running' ? { ...r, status: 'cancelled' } : r);
+      // Requests already sent stop too, instead of using up quota for answers nobody keeps
+      inFlight.forEach(controller => controller.abort());
+      // Slots reserved by rows that never started are free again for a retry
+      if (options.requestsPerMinute > 0) nextSlotAt = Math.min(nextSlotAt, lastStartAt + 60000 / options.requestsPerMinute);
+      emit();
+    },
+    // Failed rows, and rows a cancel left unfinished, go back into the queue
+    retryFailed: () => {
+      rows = rows.map(r => r.status === 'failed' || r.status === 'cancelled' ? { ...r, status: 'pending', error: undefined } : r);
+      if (state === 'paused') {
+        emit();
+        return;
+      }
+      run();
+    },
+  };
+};
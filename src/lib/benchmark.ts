@@ -0,0 +1,176 @@
+import type { AnalysisMode, AnalysisResult } from './types';
+import type { MoralFramework } from './frameworks';
+import { renderPrompt } from './frameworks';
+import { describeAnalysisError } from './errors';
+
+// --- Golden-Set Benchmark ---
+// A fixed list of scenarios with the score ranges a healthy prompt / model should land in.
+// Re-running it after a prompt edit or a model change shows whether the scores drifted.
+
+// Expected score: the rubric value and how far a healthy answer may stray from it (clipped to [-1, 1])
+export type AxisExpectation = {
+  target: number;
+  tolerance: number;
+};
+
+export type GoldenScenario = {
+  id: string;
+  action: string;
+  intent: string;
+  expected: { x: AxisExpectation; y: AxisExpectation };
+};
+
+export type GoldenSet = {
+  id: string;
+  version: number; // Bump whenever scenarios or ranges change; reports are only comparable within a version
+  name: string;
+  frameworkId: AnalysisMode;
+  scenarios: GoldenScenario[];
+};
+
+// Anchors from the README rubric: abominations at -1, neutral acts at 0, saving life at +1.
+// Intents follow the X-axis ladder (The Void, The Hollow, Mortal, The Bond, The Divine).
+export const SEISMOGRAPH_GOLDEN_SET: GoldenSet = {
+  id: 'seismograph-anchors',
+  version: 1,
+  name: 'Seismograph README anchors',
+  frameworkId: 'seismograph',
+  scenarios: [
+    { id: 'rape-pleasure', action: 'I rape a woman', intent: 'Because I enjoy her suffering', expected: { y: { target: -1, tolerance: 0.15 }, x: { target: -1, tolerance: 0.3 } } },
+    { id: 'torture-fun', action: 'I torture a prisoner', intent: 'Just for fun', expected: { y: { target: -1, tolerance: 0.15 }, x: { target: -1, tolerance: 0.3 } } },
+    { id: 'kill-revenge', action: 'I kill my neighbour', intent: 'Out of revenge for an insult', expected: { y: { target: -0.8, tolerance: 0.2 }, x: { target: -0.8, tolerance: 0.2 } } },
+    { id: 'punch-revenge', action: 'I punch a stranger', intent: 'Out of revenge', expected: { y: { target: -0.5, tolerance: 0.2 }, x: { target: -0.8, tolerance: 0.2 } } },
+    { id: 'steal-family', action: 'I steal bread', intent: 'To feed my family', expected: { y: { target: -0.4, tolerance: 0.2 }, x: { target: 0.5, tolerance: 0.2 } } },
+    { id: 'lie-money', action: 'I lie to a customer', intent: 'For the money', expected: { y: { target: -0.4, tolerance: 0.2 }, x: { target: -0.5, tolerance: 0.2 } } },
+    { id: 'walk-habit', action: 'I walk to the park', intent: 'Out of habit', expected: { y: { target: 0, tolerance: 0.15 }, x: { target: 0, tolerance: 0.2 } } },
+    { id: 'eat-duty', action: 'I eat breakfast', intent: 'Out of duty to stay healthy for work', expected: { y: { target: 0, tolerance: 0.15 }, x: { target: 0, tolerance: 0.2 } } },
+    { id: 'donate-greed', action: 'I donate to a charity', intent: 'Out of greed, for the tax profit', expected: { y: { target: 0.5, tolerance: 0.2 }, x: { target: -0.5, tolerance: 0.2 } } },
+    { id: 'help-friend', action: 'I help my neighbour move house', intent: 'Because we are old friends', expected: { y: { target: 0.5, tolerance: 0.2 }, x: { target: 0.5, tolerance: 0.2 } } },
+    { id: 'save-compassion', action: 'I save a drowning child', intent: 'Out of compassion for a stranger', expected: { y: { target: 1, tolerance: 0.15 }, x: { target: 0.8, tolerance: 0.2 } } },
+    { id: 'rescue-sacrifice', action: 'I rescue people from a burning house', intent: 'To save everyone, sacrificing my own life', expected: { y: { target: 1, tolerance: 0.15 }, x: { target: 1, tolerance: 0.2 } } },
+  ]
+};
+
+export const GOLDEN_SETS: GoldenSet[] = [SEISMOGRAPH_GOLDEN_SET];
+
+// --- Scoring ---
+export type AxisOutcome = {
+  value: number;
+  target: number;
+  error: number;               // |value - target|
+  inRange: boolean;
+  covered?: boolean;           // Did the reported noise interval contain the target? (undefined: no interval)
+};
+
+export type ScenarioOutcome = {
+  scenario: GoldenScenario;
+  pass: boolean;               // Both axes inside their expected ranges
+  x?: AxisOutcome;
+  y?: AxisOutcome;
+  error?: string;              // Set when the call failed; counts as a failure
+};
+
+export type BenchmarkReport = {
+  setId: string;
+  setVersion: number;
+  frameworkId: AnalysisMode;
+  frameworkVersion: number;
+  promptFingerprint: string;
+  providerId: string;          // Backend that answered; through the team proxy, the one the server named
+  model: string;
+  ranAt: string;
+  outcomes: ScenarioOutcome[];
+};
+
+export type BenchmarkSummary = {
+  total: number;
+  passed: number;
+  failedCalls: number;
+  meanError: { x: number; y: number };
+  coverage: { x?: number; y?: number }; // Share of reported intervals that contained the target
+};
+
+export const expectedRange = ({ target, tolerance }: AxisExpectation): [number, number] =>
+  [Math.max(-1, target - tolerance), Math.min(1, target + tolerance)];
+
+const scoreAxis = (value: number, expected: AxisExpectation, low?: number, high?: number): AxisOutcome => {
+  const [min, max] = expectedRange(expected);
+  return {
+    value,
+    target: expected.target,
+    error: Math.abs(value - expected.target),
+    inRange: value >= min && value <= max,
+    covered: low !== undefined && high !== undefined ? low <= expected.target && expected.target <= high : undefined
+  };
+};
+
+export const scoreScenario = (scenario: GoldenScenario, result: AnalysisResult): ScenarioOutcome => {
+  const x = scoreAxis(result.x, scenario.expected.x, result.xMin, result.xMax);
+  const y = scoreAxis(result.y, scenario.expected.y, result.yMin, result.yMax);
+  return { scenario, pass: x.inRange && y.inRange, x, y };
+};
+
+export const summarizeReport = (report: BenchmarkReport): BenchmarkSummary => {
+  const scored = report.outcomes.filter(o => o.x && o.y);
+  const mean = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+  const coverage = (axis: 'x' | 'y') => {
+    const reported = scored.map(o => o[axis]!.covered).filter((c): c is boolean => c !== undefined);
+    return reported.length ? reported.filter(Boolean).length / reported.length : undefined;
+  };
+  return {
+    total: report.outcomes.length,
+    passed: report.outcomes.filter(o => o.pass).length,
+    failedCalls: report.outcomes.filter(o => o.error).length,
+    meanError: { x: mean(scored.map(o => o.x!.error)), y: mean(scored.map(o => o.y!.error)) },
+    coverage: { x: coverage('x'), y: coverage('y') }
+  };
+};
+
+// Short, stable hash of the prompt the model sees (template with the rubrics filled in, scenario left blank),
+// so a report or run shows which prompt produced it; editing an anchor changes it as much as editing the template
+export const promptFingerprint = (framework: MoralFramework) => {
+  let hash = 0x811c9dc5;
+  for (const char of renderPrompt(framework, '', '')) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// --- Runner ---
+// Scenarios run one at a time; a failed call is recorded and the run moves on
+export const runBenchmark = async (
+  set: GoldenSet,
+  analyze: (action: string, intent: string) => Promise<AnalysisResult>,
+  onOutcome: (outcome: ScenarioOutcome, done: number) => void,
+  shouldStop: () => boolean
+): Promise<ScenarioOutcome[]> => {
+  const outcomes: ScenarioOutcome[] = [];
+  for (const scenario of set.scenarios) {
+    if (shouldStop()) break;
+    let outcome: ScenarioOutcome;
+    try {
+      outcome = scoreScenario(scenario, await analyze(scenario.action, scenario.intent));
+    } catch (err) {
+      outcome = { scenario, pass: false, error: describeAnalysisError(err) };
+    }
+    outcomes.push(outcome);
+    onOutcome(outcome, outcomes.length);
+  }
+  return outcomes;
+};
+
+// --- Persistence (last report per golden set, for comparison with the next run) ---
+const BENCHMARK_STORAGE_KEY = 'moral-analyzer:benchmark';
+
+export const loadLastReports = (): Record<string, BenchmarkReport> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(BENCHMARK_STORAGE_KEY) || '{}');
+    return stored && typeof stored === 'object' ? stored : {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveLastReports = (reports: Record<string, BenchmarkReport>) => {
+  localStorage.setItem(BENCHMARK_STORAGE_KEY, JSON.stringify(reports));
+};
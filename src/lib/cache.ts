@@ -0,0 +1,139 @@
+import type { AnalysisMode, AnalysisResult, YCache, YCacheEntry } from './types';
+
+// --- Action Normalization ---
+// "I steal bread", "i steal  bread." and "I steal bread!" must share one Y value.
+
+export type NormalizationSettings = {
+  useSynonyms: boolean;
+  synonyms: string; // Editable text, one "variant, variant => canonical" rule per line
+};
+
+export const DEFAULT_SYNONYMS = [
+  'stealing, stole, stolen, steals => steal',
+  'killing, killed, kills => kill',
+  'murdering, murdered, murders => murder',
+  'lying, lied, lies => lie',
+  'helping, helped, helps => help',
+  'saving, saved, saves => save',
+  'giving, gave, given, gives => give',
+  'hitting, hits => hit',
+  'punching, punched, punches => punch',
+].join('\n');
+
+export const DEFAULT_NORMALIZATION: NormalizationSettings = { useSynonyms: false, synonyms: DEFAULT_SYNONYMS };
+
+// Case, Unicode width, punctuation and whitespace differences never change the key
+export const normalizeAction = (action: string) =>
+  action
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/['’`]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+export const parseSynonyms = (text: string): Record<string, string> => {
+  const map: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const [variants, canonical] = line.split('=>').map(part => part?.trim());
+    if (!variants || !canonical) continue;
+    for (const variant of variants.split(',')) {
+      const word = normalizeAction(variant);
+      if (word) map[word] = normalizeAction(canonical);
+    }
+  }
+  return map;
+};
+
+const applySynonyms = (normalized: string, synonyms: Record<string, string>) =>
+  normalized.split(' ').map(word => synonyms[word] ?? word).join(' ');
+
+// Keys are stored with the base normalization; synonyms only widen the lookup
+export const actionCacheKey = (mode: AnalysisMode, action: string) => `${mode}:${normalizeAction(action)}`;
+
+export const splitCacheKey = (key: string): { mode: AnalysisMode; action: string } => {
+  const separator = key.indexOf(':');
+  return { mode: key.slice(0, separator), action: key.slice(separator + 1) };
+};
+
+// Key of the entry that answers for this action, if any
+export const findCacheKey = (cache: YCache, mode: AnalysisMode, action: string, settings: NormalizationSettings): string | undefined => {
+  const key = actionCacheKey(mode, action);
+  if (cache[key] !== undefined) return key;
+  if (!settings.useSynonyms) return undefined;
+
+  const synonyms = parseSynonyms(settings.synonyms);
+  const wanted = applySynonyms(normalizeAction(action), synonyms);
+  return Object.keys(cache).find(candidate => {
+    const parts = splitCacheKey(candidate);
+    return parts.mode === mode && applySynonyms(parts.action, synonyms) === wanted;
+  });
+};
+
+// Existing key when one matches, otherwise the key a new entry should be stored under
+export const cacheKeyFor = (cache: YCache, mode: AnalysisMode, action: string, settings: NormalizationSettings) =>
+  findCacheKey(cache, mode, action, settings) ?? actionCacheKey(mode, action);
+
+// Re-keys a cache written with an older normalization; the first entry wins on collisions
+export const rekeyCache = (cache: YCache): YCache => {
+  const next: YCache = {};
+  for (const [key, entry] of Object.entries(cache)) {
+    const { mode, action } = splitCacheKey(key);
+    const newKey = actionCacheKey(mode, action);
+    if (next[newKey] === undefined) next[newKey] = { ...entry, action: entry.action ?? action };
+  }
+  return next;
+};
+
+// --- CONSISTENCY CHECK ---
+// We only cache Y (Action) values. X (Intent) values must be fresh.
+// Returns the result to plot and, on a cache miss, the entry that should be stored.
+export const resolveWithCache = (cache: YCache, actionKey: string, apiResult: AnalysisResult): { result: AnalysisResult; newEntry?: YCacheEntry } => {
+  const cached = cache[actionKey];
+  if (cached !== undefined) {
+    // Note: We don't cache X ranges because Intent changes
+    return {
+      result: {
+        ...apiResult,
+        y: cached.y,
+        yMin: cached.yMin,
+        yMax: cached.yMax,
+        rationale: { x: apiResult.rationale?.x, y: cached.yRationale }
+      }
+    };
+  }
+  return {
+    result: apiResult,
+    newEntry: { y: apiResult.y, yMin: apiResult.yMin, yMax: apiResult.yMax, yRationale: apiResult.rationale?.y, updatedAt: Date.now() }
+  };
+};
+
+// --- Bulk Operations (pinned entries survive both) ---
+
+// Drops every cached action of one framework, e.g. after its prompt or rubric was edited
+export const dropModeEntries = (cache: YCache, mode: AnalysisMode): YCache =>
+  Object.fromEntries(Object.entries(cache).filter(([key, entry]) => entry.pinned || !key.startsWith(`${mode}:`)));
+
+export const pinnedOnly = (cache: YCache): YCache =>
+  Object.fromEntries(Object.entries(cache).filter(([, entry]) => entry.pinned));
+
+// --- Settings Persistence ---
+const NORMALIZATION_STORAGE_KEY = 'moral-analyzer:cache-settings';
+
+export const loadNormalizationSettings = (): NormalizationSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(NORMALIZATION_STORAGE_KEY) || 'null');
+    if (stored) {
+      return {
+        useSynonyms: stored.useSynonyms === true,
+        synonyms: typeof stored.synonyms === 'string' ? stored.synonyms : DEFAULT_SYNONYMS
+      };
+    }
+  } catch {
+    // Corrupt settings fall through to defaults
+  }
+  return DEFAULT_NORMALIZATION;
+};
+
+export const saveNormalizationSettings = (settings: NormalizationSettings) => {
+  localStorage.setItem(NORMALIZATION_STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,135 @@
+import { markerPath } from './lineup';
+import type { MarkerShape } from './lineup';
+
+// --- Chart Export (SVG / PNG) ---
+// Recharts renders the plot as SVG, but the quadrant watermarks and legends are HTML overlays.
+// They are redrawn here as SVG so the downloaded file matches what is on screen.
+
+export type QuadrantCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export type ChartOverlay = {
+  watermarks: { text: string; color: string; corner: QuadrantCorner }[];
+  legend: { text: string; color: string }[];
+  magnitude: { value: number; radius: number }[]; // Bubble sizes; empty unless the bubble view is on
+  models: { text: string; shape: MarkerShape }[]; // Marker key of model comparisons in view
+  background: string;
+};
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const LEGEND_HEIGHT = 36;
+const KEY_ROW_HEIGHT = 24;
+const CHAR_WIDTH = 6.5; // Rough width of a 12px character; text is laid out without measuring it
+const KEY_COLOR = '#94a3b8';
+
+const svgEl = (name: string, attrs: Record<string, string | number>, text?: string) => {
+  const node = document.createElementNS(SVG_NS, name);
+  Object.entries(attrs).forEach(([key, value]) => node.setAttribute(key, String(value)));
+  if (text !== undefined) node.textContent = text;
+  return node;
+};
+
+// One centred row of a key: a title, then a symbol and a caption per entry
+type KeyEntry = { symbolWidth: number; drawSymbol: (x: number, cy: number) => SVGElement; text: string };
+
+const drawKeyRow = (root: SVGSVGElement, width: number, cy: number, title: string, entries: KeyEntry[]) => {
+  const entryWidth = (e: KeyEntry) => e.symbolWidth + 4 + e.text.length * CHAR_WIDTH;
+  const total = title.length * CHAR_WIDTH + entries.reduce((sum, e) => sum + 12 + entryWidth(e), 0);
+  let x = Math.max(0, (width - total) / 2);
+  root.appendChild(svgEl('text', { x, y: cy + 4, fill: '#64748b', 'font-size': 12 }, title));
+  x += title.length * CHAR_WIDTH + 12;
+  entries.forEach(entry => {
+    root.appendChild(entry.drawSymbol(x, cy));
+    root.appendChild(svgEl('text', { x: x + entry.symbolWidth + 4, y: cy + 4, fill: KEY_COLOR, 'font-size': 12 }, entry.text));
+    x += entryWidth(entry) + 12;
+  });
+};
+
+export const buildChartSvg = (source: SVGSVGElement, overlay: ChartOverlay) => {
+  const { width, height } = source.getBoundingClientRect();
+  const largestBubble = Math.max(0, ...overlay.magnitude.map(m => m.radius));
+  const magnitudeHeight = overlay.magnitude.length ? Math.max(KEY_ROW_HEIGHT, 2 * largestBubble + 8) : 0;
+  const modelsHeight = overlay.models.length ? KEY_ROW_HEIGHT : 0;
+  const totalHeight = height + LEGEND_HEIGHT + magnitudeHeight + modelsHeight;
+
+  const root = svgEl('svg', {
+    xmlns: SVG_NS,
+    width,
+    height: totalHeight,
+    viewBox: `0 0 ${width} ${totalHeight}`,
+    'font-family': 'ui-sans-serif, system-ui, sans-serif'
+  }) as SVGSVGElement;
+
+  root.appendChild(svgEl('rect', { x: 0, y: 0, width, height: totalHeight, fill: overlay.background }));
+
+  // Quadrant watermarks sit behind the plot, as in the live view
+  overlay.watermarks.forEach(({ text, color, corner }) => {
+    const x = corner.endsWith('left') ? width * 0.25 : width * 0.75;
+    const y = corner.startsWith('top') ? 20 : height - 40;
+    root.appendChild(svgEl('text', {
+      x, y, fill: color, 'font-size': 14, 'font-weight': 700, 'letter-spacing': 3, 'text-anchor': 'middle'
+    }, text.toUpperCase()));
+  });
+
+  const plot = source.cloneNode(true) as SVGSVGElement;
+  plot.setAttribute('x', '0');
+  plot.setAttribute('y', '0');
+  root.appendChild(plot);
+
+  // Legend row below the plot
+  const slot = width / Math.max(overlay.legend.length, 1);
+  overlay.legend.forEach(({ text, color }, i) => {
+    const cx = slot * i + slot / 2 - text.length * 3;
+    const cy = height + LEGEND_HEIGHT / 2;
+    root.appendChild(svgEl('circle', { cx: cx - 10, cy, r: 6, fill: color }));
+    root.appendChild(svgEl('text', { x: cx, y: cy + 4, fill: KEY_COLOR, 'font-size': 12 }, text));
+  });
+
+  // Magnitude and model keys get a row each, as they sit next to the legend on screen
+  if (overlay.magnitude.length) {
+    drawKeyRow(root, width, height + LEGEND_HEIGHT + magnitudeHeight / 2, 'Magnitude', overlay.magnitude.map(({ value, radius }) => ({
+      symbolWidth: 2 * largestBubble,
+      drawSymbol: (x, cy) => svgEl('circle', { cx: x + largestBubble, cy, r: radius, fill: 'none', stroke: KEY_COLOR }),
+      text: value.toFixed(1)
+    })));
+  }
+  if (overlay.models.length) {
+    drawKeyRow(root, width, height + LEGEND_HEIGHT + magnitudeHeight + modelsHeight / 2, 'Models', overlay.models.map(({ text, shape }) => ({
+      symbolWidth: 10,
+      drawSymbol: (x, cy) => svgEl('path', { d: markerPath(shape, x + 5, cy, 5), fill: KEY_COLOR }),
+      text
+    })));
+  }
+
+  return {
+    svg: new XMLSerializer().serializeToString(root),
+    width,
+    height: totalHeight
+  };
+};
+
+export const svgToPng = (svg: string, width: number, height: number, scale = 2): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        URL.revokeObjectURL(url);
+        reject(new Error("Canvas is not available"));
+        return;
+      }
+      ctx.scale(scale, scale);
+      ctx.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("PNG encoding failed")), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not render chart image"));
+    };
+    image.src = url;
+  });
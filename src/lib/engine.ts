@@ -0,0 +1,114 @@
+import type { AnalysisMode, AnalysisResult, YCache, YCacheEntry } from './types';
+import { runAnalysis } from './providers';
+import type { ProviderSettings } from './providers';
+import { BUILT_IN_FRAMEWORKS, quadrantOf, resolveFramework } from './frameworks';
+import type { MoralFramework, QuadrantKey } from './frameworks';
+import { DEFAULT_NORMALIZATION, cacheKeyFor, findCacheKey, resolveWithCache } from './cache';
+import type { NormalizationSettings } from './cache';
+import { AnalysisError } from './errors';
+import { screenScenario, unusableInput } from './guardrails';
+import { withRetry } from './retry';
+import type { RetryInfo } from './retry';
+
+// --- Headless Analysis Engine ---
+// Everything needed to score a scenario without React or a browser: the framework prompt,
+// the provider call with retry, the Y-cache rule and quadrant classification.
+// The UI and the command-line tool both go through these functions.
+
+export type ScenarioRequest = {
+  action: string;
+  intent: string;
+  framework: MoralFramework;
+  temperature?: number;
+  signal?: AbortSignal; // Cancels the call and any pending retry
+  useCache?: boolean;   // false: raw answer wanted, so the team proxy's shared cache is bypassed too
+};
+
+// Provider call for one scenario; a cached action weight turns it into an intent-only request.
+// Unusable input is refused without a call, and screening findings travel on the result.
+export const requestAnalysis = (
+  request: ScenarioRequest,
+  cache: YCache,
+  settings: ProviderSettings,
+  normalization: NormalizationSettings = DEFAULT_NORMALIZATION,
+  onRetry?: (info: RetryInfo) => void
+): Promise<AnalysisResult> => {
+  const unusable = unusableInput(request.action, request.intent);
+  if (unusable) return Promise.reject(new AnalysisError('invalid-input', unusable));
+
+  const cachedKey = findCacheKey(cache, request.framework.id, request.action, normalization);
+  const knownY = cachedKey ? cache[cachedKey] : undefined;
+  const warnings = screenScenario(request.action, request.intent);
+  return withRetry(() => runAnalysis({ ...request, knownY }, settings), { signal: request.signal, onRetry })
+    .then(result => warnings.length > 0 ? { ...result, warnings } : result);
+};
+
+// Applies the Y-cache rule to a fresh result: a cached action keeps its weight, a new one is stored
+export const applyYCache = (
+  cache: YCache,
+  mode: AnalysisMode,
+  action: string,
+  apiResult: AnalysisResult,
+  normalization: NormalizationSettings = DEFAULT_NORMALIZATION
+): { result: AnalysisResult; key: string; newEntry?: YCacheEntry } => {
+  const key = cacheKeyFor(cache, mode, action, normalization);
+  const { result, newEntry } = resolveWithCache(cache, key, apiResult);
+  return { result, key, newEntry: newEntry && { ...newEntry, action } };
+};
+
+export const classifyQuadrant = (framework: MoralFramework, x: number, y: number): { quadrant: QuadrantKey; label: string } => {
+  const quadrant = quadrantOf(x, y);
+  return { quadrant, label: framework.quadrants[quadrant].label };
+};
+
+// --- Batch Scoring ---
+export type ScoredScenario = AnalysisResult & {
+  action: string;
+  intent: string;
+  mode: AnalysisMode;
+  frameworkVersion: number;
+  quadrant: QuadrantKey;
+  quadrantLabel: string;
+  cachedY: boolean; // Y came from the cache rather than this call
+};
+
+export type ScoringOptions = {
+  settings: ProviderSettings;
+  mode: AnalysisMode;
+  frameworks?: MoralFramework[]; // Defaults to the built-ins
+  cache?: YCache;                // Starting cache; entries added during the run are returned
+  normalization?: NormalizationSettings;
+};
+
+// Scores pairs one after another so repeated actions reuse the first answer's Y.
+// A failed pair stops the run; the scores so far are reported through onScored.
+export const scorePairs = async (
+  pairs: { action: string; intent: string }[],
+  options: ScoringOptions,
+  onScored?: (score: ScoredScenario, index: number) => void
+): Promise<{ scores: ScoredScenario[]; cache: YCache }> => {
+  const framework = resolveFramework(options.frameworks ?? BUILT_IN_FRAMEWORKS, options.mode);
+  let cache = options.cache ?? {};
+  const scores: ScoredScenario[] = [];
+
+  for (const [index, { action, intent }] of pairs.entries()) {
+    const apiResult = await requestAnalysis({ action, intent, framework }, cache, options.settings, options.normalization);
+    const { result, key, newEntry } = applyYCache(cache, framework.id, action, apiResult, options.normalization);
+    if (newEntry) cache = { ...cache, [key]: newEntry };
+
+    const { quadrant, label } = classifyQuadrant(framework, result.x, result.y);
+    const score: ScoredScenario = {
+      ...result,
+      action,
+      intent,
+      mode: framework.id,
+      frameworkVersion: framework.version,
+      quadrant,
+      quadrantLabel: label,
+      cachedY: !newEntry
+    };
+    scores.push(score);
+    onScored?.(score, index);
+  }
+  return { scores, cache };
+};
@@ -0,0 +1,141 @@
+import type { AnalysisResult, PointRationale } from './types';
+import type { InputWarning } from './guardrails';
+
+// --- Ensemble Sampling ---
+// Instead of trusting one call's self-reported y_min / y_max, the scenario is sampled N times
+// across a temperature sweep and the spread of the answers is measured directly.
+
+export type EnsembleConfig = {
+  enabled: boolean;
+  samples: number;
+  minTemperature: number;
+  maxTemperature: number;
+  coverage: number; // Central interval width, e.g. 0.8 => P10–P90
+};
+
+export type AxisStats = {
+  mean: number;
+  median: number;
+  low: number;  // Lower empirical percentile
+  high: number; // Upper empirical percentile
+};
+
+export type EnsembleSample = { x: number; y: number; temperature: number };
+
+export type EnsembleStats = {
+  samples: EnsembleSample[];
+  failed: number;
+  coverage: number;
+  x: AxisStats;
+  y: AxisStats;
+  // Mean of the intervals the model claimed for itself, for calibration against the measured spread
+  reported: { xMin?: number; xMax?: number; yMin?: number; yMax?: number };
+  z?: number; // Mean consequence magnitude of the samples that reported one
+  rationale?: PointRationale; // Explanation of the sample closest to the medians
+  warnings?: InputWarning[];  // The engine's screening findings, the same for every sample
+  servedBy?: AnalysisResult['servedBy'];
+};
+
+export const DEFAULT_ENSEMBLE: EnsembleConfig = {
+  enabled: false,
+  samples: 5,
+  minTemperature: 0.2,
+  maxTemperature: 1.0,
+  coverage: 0.8,
+};
+
+// Evenly spaced temperatures from min to max (a single sample uses the midpoint)
+export const temperatureSweep = ({ samples, minTemperature, maxTemperature }: EnsembleConfig): number[] => {
+  if (samples <= 1) return [(minTemperature + maxTemperature) / 2];
+  const step = (maxTemperature - minTemperature) / (samples - 1);
+  return Array.from({ length: samples }, (_, i) => Math.round((minTemperature + step * i) * 100) / 100);
+};
+
+// Linear-interpolated percentile of an ascending array, p in [0, 1]
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return NaN;
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+const axisStats = (values: number[], coverage: number): AxisStats => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const tail = (1 - coverage) / 2;
+  return {
+    mean: values.reduce((sum, v) => sum + v, 0) / values.length,
+    median: percentile(sorted, 0.5),
+    low: percentile(sorted, tail),
+    high: percentile(sorted, 1 - tail),
+  };
+};
+
+const meanOf = (values: (number | undefined)[]) => {
+  const defined = values.filter((v): v is number => v !== undefined);
+  return defined.length ? defined.reduce((sum, v) => sum + v, 0) / defined.length : undefined;
+};
+
+export const summarizeEnsemble = (results: (AnalysisResult & { temperature: number })[], failed: number, coverage: number): EnsembleStats => {
+  const x = axisStats(results.map(r => r.x), coverage);
+  const y = axisStats(results.map(r => r.y), coverage);
+  const distance = (r: AnalysisResult) => Math.hypot(r.x - x.median, r.y - y.median);
+  const representative = results.reduce((best, r) => distance(r) < distance(best) ? r : best, results[0]);
+
+  return {
+    samples: results.map(({ x, y, temperature }) => ({ x, y, temperature })),
+    failed,
+    coverage,
+    x,
+    y,
+    reported: {
+      xMin: meanOf(results.map(r => r.xMin)),
+      xMax: meanOf(results.map(r => r.xMax)),
+      yMin: meanOf(results.map(r => r.yMin)),
+      yMax: meanOf(results.map(r => r.yMax)),
+    },
+    z: meanOf(results.map(r => r.z)),
+    rationale: representative?.rationale,
+    ...(representative?.warnings && { warnings: representative.warnings }),
+    ...(representative?.servedBy && { servedBy: representative.servedBy }),
+  };
+};
+
+// Runs every sample in parallel; individual failures are tolerated as long as two samples survive
+export const runEnsemble = async (
+  analyzeOnce: (temperature: number) => Promise<AnalysisResult>,
+  config: EnsembleConfig
+): Promise<EnsembleStats> => {
+  const temperatures = temperatureSweep(config);
+  const settled = await Promise.allSettled(temperatures.map(t => analyzeOnce(t).then(result => ({ ...result, temperature: t }))));
+
+  const results = settled.flatMap(s => s.status === 'fulfilled' ? [s.value] : []);
+  const failures = settled.flatMap(s => s.status === 'rejected' ? [s.reason] : []);
+  if (results.length < Math.min(2, temperatures.length)) throw failures[0];
+
+  return summarizeEnsemble(results, failures.length, config.coverage);
+};
+
+// Averaged bounds need not contain the median; stretching them to it keeps the point inside its own noise
+const enclose = (median: number, min?: number, max?: number) => ({
+  min: min === undefined ? undefined : Math.min(min, median),
+  max: max === undefined ? undefined : Math.max(max, median),
+});
+
+// The ensemble point itself: medians for position, the model's own (averaged) claims for the noise box
+export const ensembleToResult = (stats: EnsembleStats): AnalysisResult => {
+  const x = enclose(stats.x.median, stats.reported.xMin, stats.reported.xMax);
+  const y = enclose(stats.y.median, stats.reported.yMin, stats.reported.yMax);
+  return {
+    x: stats.x.median,
+    y: stats.y.median,
+    xMin: x.min,
+    xMax: x.max,
+    yMin: y.min,
+    yMax: y.max,
+    z: stats.z,
+    rationale: stats.rationale,
+    ...(stats.warnings && { warnings: stats.warnings }),
+    ...(stats.servedBy && { servedBy: stats.servedBy }),
+  };
+};
@@ -0,0 +1,85 @@
+// --- Typed Analysis Errors ---
+// Every failure in the provider pipeline is raised as an AnalysisError whose message is safe to show in the UI.
+
+export type AnalysisErrorCode =
+  | 'missing-key'     // Provider needs an API key and none is configured
+  | 'network'         // Request never reached the server (offline, CORS, DNS)
+  | 'http-client'     // 4xx from the provider
+  | 'http-server'     // 5xx from the provider
+  | 'blocked'         // Provider refused to answer (safety filter, content policy)
+  | 'empty'           // Response had no candidates / no text
+  | 'malformed-json'  // Text was returned but is not valid JSON
+  | 'invalid-result'  // JSON parsed but failed validation (missing fields, out of range)
+  | 'unsupported'     // The provider cannot run this kind of task (free-form prompts through the team proxy)
+  | 'timeout'         // No answer within the configured per-request time limit
+  | 'aborted'         // Cancelled by the user
+  | 'invalid-input';  // Refused before any model call: empty or meaningless action / intent
+
+export class AnalysisError extends Error {
+  code: AnalysisErrorCode;
+  status?: number;
+  retryAfterMs?: number; // Server-requested wait (Retry-After) before trying again
+
+  constructor(code: AnalysisErrorCode, message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'AnalysisError';
+    this.code = code;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (header: string | null | undefined, now = Date.now()): number | undefined => {
+  if (!header?.trim()) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+// retryAfter: the response's Retry-After header, sent with 429 and 503
+export const httpError = (status: number, providerLabel: string, retryAfter?: string | null) => {
+  const wait = parseRetryAfter(retryAfter);
+  if (status === 401 || status === 403) {
+    return new AnalysisError('http-client', `${providerLabel} rejected the API key (HTTP ${status}).`, status);
+  }
+  if (status === 429) {
+    const hint = wait !== undefined ? `Try again in ${Math.ceil(wait / 1000)}s.` : 'Wait and try again.';
+    return new AnalysisError('http-client', `${providerLabel} rate limit reached (HTTP 429). ${hint}`, status, wait);
+  }
+  if (status >= 500) {
+    return new AnalysisError('http-server', `${providerLabel} is unavailable (HTTP ${status}). Please try again.`, status, wait);
+  }
+  return new AnalysisError('http-client', `${providerLabel} rejected the request (HTTP ${status}). Check the model and endpoint.`, status);
+};
+
+// A fetch that stopped because its signal fired: the user cancelled, or the time limit ran out
+export const abortError = (reason: unknown, providerLabel: string) =>
+  reason instanceof DOMException && reason.name === 'TimeoutError'
+    ? new AnalysisError('timeout', `${providerLabel} did not answer in time. Try again or raise the timeout in the provider settings.`)
+    : new AnalysisError('aborted', 'Analysis cancelled.');
+
+// Worth another attempt: transient transport failures, overload and unusable (but random) model answers.
+// Bad keys, other 4xx, blocked content and cancellation fail at once.
+export const isRetryable = (err: unknown) => {
+  if (!(err instanceof AnalysisError)) return true;
+  switch (err.code) {
+    case 'network':
+    case 'timeout':
+    case 'http-server':
+    case 'empty':
+    case 'malformed-json':
+    case 'invalid-result':
+      return true;
+    case 'http-client':
+      return err.status === 408 || err.status === 429;
+    default:
+      return false;
+  }
+};
+
+export const isCancelled = (err: unknown) => err instanceof AnalysisError && err.code === 'aborted';
+
+export const describeAnalysisError = (err: unknown): string =>
+  err instanceof AnalysisError ? err.message : "AI Analysis failed. Please try again.";
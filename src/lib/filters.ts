@@ -0,0 +1,81 @@
+import type { MoralPoint } from './types';
+import { quadrantOf } from './frameworks';
+import type { QuadrantKey } from './frameworks';
+import { displayedCoords } from './review';
+
+// --- Labels & Tags ---
+
+// Next free "Scenario N": numbering continues after the highest one, so deletions never cause repeats
+export const nextScenarioLabel = (points: MoralPoint[]) => {
+  const highest = points.reduce((max, p) => {
+    const match = /^Scenario (\d+)$/.exec(p.label);
+    return match ? Math.max(max, Number(match[1])) : max;
+  }, 0);
+  return `Scenario ${Math.max(highest, points.length) + 1}`;
+};
+
+// Tags are compared lower-cased, with inner whitespace collapsed
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Comma- or semicolon-separated (CSV files use semicolons)
+export const parseTags = (text: string): string[] =>
+  [...new Set(text.split(/[,;]/).map(normalizeTag).filter(Boolean))];
+
+export const allTags = (points: MoralPoint[]) =>
+  [...new Set(points.flatMap(p => p.tags ?? []))].sort();
+
+// --- Noise Width ---
+export type NoiseBucket = 'any' | 'none' | 'narrow' | 'medium' | 'wide';
+
+export const NOISE_BUCKETS: { id: NoiseBucket; label: string }[] = [
+  { id: 'any', label: 'Any noise' },
+  { id: 'none', label: 'No interval' },
+  { id: 'narrow', label: 'Narrow (≤ 0.2)' },
+  { id: 'medium', label: 'Medium (0.2–0.5)' },
+  { id: 'wide', label: 'Wide (> 0.5)' },
+];
+
+// Widest reported interval of the two axes, or null when the point has none
+export const noiseWidthOf = (point: MoralPoint): number | null => {
+  const widths = [
+    point.xMin !== undefined && point.xMax !== undefined ? point.xMax - point.xMin : null,
+    point.yMin !== undefined && point.yMax !== undefined ? point.yMax - point.yMin : null,
+  ].filter((w): w is number => w !== null);
+  return widths.length ? Math.max(...widths) : null;
+};
+
+const inBucket = (width: number | null, bucket: NoiseBucket) => {
+  switch (bucket) {
+    case 'any': return true;
+    case 'none': return width === null;
+    case 'narrow': return width !== null && width <= 0.2;
+    case 'medium': return width !== null && width > 0.2 && width <= 0.5;
+    case 'wide': return width !== null && width > 0.5;
+  }
+};
+
+// --- Scenario Filter ---
+// The mode filter stays separate (it also switches chart labels); this one narrows within it
+export type ScenarioFilter = {
+  query: string;             // Matched against action, intent and label
+  tags: string[];            // A point needs every selected tag
+  quadrants: QuadrantKey[];  // Empty = all quadrants
+  noise: NoiseBucket;
+  unmatched: 'dim' | 'hide'; // How the chart shows points outside the filter
+};
+
+export const EMPTY_FILTER: ScenarioFilter = { query: '', tags: [], quadrants: [], noise: 'any', unmatched: 'dim' };
+
+export const isFilterActive = (filter: ScenarioFilter) =>
+  filter.query.trim() !== '' || filter.tags.length > 0 || filter.quadrants.length > 0 || filter.noise !== 'any';
+
+export const matchesFilter = (point: MoralPoint, filter: ScenarioFilter) => {
+  const query = filter.query.trim().toLowerCase();
+  if (query && ![point.action, point.intent, point.label, point.agent ?? ''].some(text => text.toLowerCase().includes(query))) return false;
+  if (filter.tags.some(tag => !point.tags?.includes(tag))) return false;
+  if (filter.quadrants.length) {
+    const { x, y } = displayedCoords(point);
+    if (!filter.quadrants.includes(quadrantOf(x, y))) return false;
+  }
+  return inBucket(noiseWidthOf(point), filter.noise);
+};
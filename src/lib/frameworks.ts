@@ -0,0 +1,362 @@
+import type { AnalysisMode, YCacheEntry } from './types';
+import { PHILOSOPHER_TEMPLATE, SEISMOGRAPH_TEMPLATE } from './prompts';
+import { newId } from './ids';
+import { escapePromptText, untrustedInputBlock } from './guardrails';
+
+// --- Framework Types ---
+// A framework is everything that used to be hardcoded per mode: the prompt, the axis rubrics,
+// the quadrant names and the palette. Points store the framework id (as `mode`) and its version.
+
+export type RubricAnchor = {
+  value: number;
+  label: string;
+  description: string;
+  color?: string; // Hex; defaults to red / slate / emerald by sign
+};
+
+export type FrameworkAxis = {
+  name: string;
+  anchors: RubricAnchor[];
+};
+
+// Q1 = top-right (x >= 0, y >= 0), counter-clockwise from there
+export type QuadrantKey = 'q1' | 'q2' | 'q3' | 'q4';
+
+export type QuadrantStyle = {
+  label: string;  // Chart watermark
+  legend: string; // Legend entry for points in this quadrant
+  color: string;
+};
+
+export type MoralFramework = {
+  id: string;
+  version: number; // Bumped on every saved edit
+  name: string;
+  badge: string;   // Short tag on history cards, e.g. 'God Mode'
+  tagline: string; // Shown next to "Mode:" above the inputs
+  description: string;
+  analyzeLabel: string;
+  placeholders: { action: string; intent: string };
+  promptTemplate: string;
+  axes: { x: FrameworkAxis; y: FrameworkAxis };
+  quadrants: Record<QuadrantKey, QuadrantStyle>;
+};
+
+// Placeholders understood by renderPrompt; the first two are mandatory in every template
+export const PROMPT_PLACEHOLDERS = ['{{action}}', '{{intent}}', '{{x_axis}}', '{{y_axis}}', '{{x_rubric}}', '{{y_rubric}}'] as const;
+
+// Legend order (top row first, matching the original chart key)
+export const QUADRANT_ORDER: QuadrantKey[] = ['q1', 'q2', 'q4', 'q3'];
+
+// --- Built-in Frameworks ---
+export const SEISMOGRAPH: MoralFramework = {
+  id: 'seismograph',
+  version: 1,
+  name: 'Seismograph',
+  badge: 'God Mode',
+  tagline: 'God / Intuition',
+  description: "Ignore utility. Ignore social contracts. Ignore the 'reasons' humans give. Imagine morality is a physical force like gravity. Based on the deep, instinctual, emotional, and visceral patterns in human history, how 'heavy' is the sin of this action? If the human consensus is split, acknowledge the noise, but judge the weight of the action as if you were an ancient god judging a soul.",
+  analyzeLabel: 'Detect Signal',
+  placeholders: { action: 'e.g. A distinct visceral act', intent: 'e.g. The spirit of the agent' },
+  promptTemplate: SEISMOGRAPH_TEMPLATE,
+  axes: {
+    x: {
+      name: 'Purity of Soul (Intent)',
+      anchors: [
+        { value: -1, label: 'The Void', description: 'Sadism, Nihilism ("Just Because" for evil)', color: '#ef4444' },
+        { value: -0.8, label: 'The Vile', description: 'Spite, Vengeance, Hatred', color: '#f87171' },
+        { value: -0.5, label: 'The Hollow', description: 'Greed, Exploitation', color: '#fb923c' },
+        { value: -0.2, label: 'The Petty', description: 'Selfish, Lazy', color: '#eab308' },
+        { value: 0, label: 'Mortal', description: 'Fear, Duty, Habit', color: '#94a3b8' },
+        { value: 0.2, label: 'The Civil', description: 'Polite, Decent', color: '#93c5fd' },
+        { value: 0.5, label: 'Bond', description: 'Love, Loyalty', color: '#60a5fa' },
+        { value: 0.8, label: 'Saint', description: 'Compassion, Mercy', color: '#6ee7b7' },
+        { value: 1, label: 'Divine', description: 'Sacrifice, Transcendence', color: '#34d399' },
+      ]
+    },
+    y: {
+      name: 'Transcendental Weight (Action)',
+      anchors: [
+        { value: -1, label: 'Abomination', description: 'Universal revulsion (Rape, Torture)' },
+        { value: 0, label: 'Mortal', description: 'Neutral acts (Walking, Eating)' },
+        { value: 1, label: 'Divine', description: 'Creation, saving life' },
+      ]
+    }
+  },
+  quadrants: {
+    q1: { label: 'Pure', legend: 'Divine / Pure', color: '#34d399' },
+    q2: { label: 'Corrupt', legend: 'Corrupt Good', color: '#818cf8' },
+    q3: { label: 'Abomination', legend: 'Abomination', color: '#f87171' },
+    q4: { label: 'Tragic', legend: 'Tragic Soul', color: '#fbbf24' },
+  }
+};
+
+export const PHILOSOPHER: MoralFramework = {
+  id: 'philosopher',
+  version: 1,
+  name: 'Philosopher',
+  badge: 'Logic',
+  tagline: 'Logic / T=0',
+  description: 'Judges the mechanical reality of the act at the moment of execution (T=0). Consent, ownership, law and context belong to the intent.',
+  analyzeLabel: 'Plot Logic',
+  placeholders: { action: 'e.g. Stealing a loaf of bread', intent: 'e.g. To feed my starving family' },
+  promptTemplate: PHILOSOPHER_TEMPLATE,
+  axes: {
+    x: {
+      name: 'Justifiability (Intent)',
+      anchors: [
+        { value: -1, label: 'Malicious', description: 'Sadism, violation of consent' },
+        { value: -0.5, label: 'Greed', description: 'Self-serving gain' },
+        { value: 1, label: 'Altruism', description: 'Acting for others' },
+      ]
+    },
+    y: {
+      name: 'Mechanical Morality (Action)',
+      anchors: [
+        { value: -1, label: 'Killing', description: 'Termination of life' },
+        { value: -0.5, label: 'Punching', description: 'Harm' },
+        { value: 0, label: 'Transfer of Object', description: 'Neutral' },
+        { value: 0.5, label: 'Sexual Intercourse', description: 'Biological life process' },
+      ]
+    }
+  },
+  quadrants: {
+    q1: { label: 'Virtuous', legend: 'Virtuous', color: '#22c55e' },
+    q2: { label: 'Ulterior', legend: 'Ulterior', color: '#a855f7' },
+    q3: { label: 'Evil', legend: 'Malicious', color: '#ef4444' },
+    q4: { label: 'Utilitarian', legend: 'Utilitarian', color: '#f59e0b' },
+  }
+};
+
+export const BUILT_IN_FRAMEWORKS: MoralFramework[] = [SEISMOGRAPH, PHILOSOPHER];
+
+export const isBuiltIn = (id: AnalysisMode) => BUILT_IN_FRAMEWORKS.some(f => f.id === id);
+
+// Points whose framework was deleted keep rendering with the Seismograph palette under their own id
+export const resolveFramework = (frameworks: MoralFramework[], id: AnalysisMode): MoralFramework =>
+  frameworks.find(f => f.id === id) ?? { ...SEISMOGRAPH, id, name: id, badge: id, version: 0 };
+
+// --- Geometry & Palette ---
+export const quadrantOf = (x: number, y: number): QuadrantKey => {
+  if (x >= 0 && y >= 0) return 'q1';
+  if (x < 0 && y >= 0) return 'q2';
+  if (x < 0 && y < 0) return 'q3';
+  return 'q4';
+};
+
+export const pointColor = (framework: MoralFramework, x: number, y: number) =>
+  framework.quadrants[quadrantOf(x, y)].color;
+
+export const anchorColor = (anchor: RubricAnchor) =>
+  anchor.color ?? (anchor.value < 0 ? '#f87171' : anchor.value > 0 ? '#34d399' : '#94a3b8');
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const formatValue = (value: number) => `${value > 0 ? '+' : ''}${Number.isInteger(value) ? value.toFixed(1) : value}`;
+
+// --- Prompt Rendering ---
+const rubricText = (axis: FrameworkAxis) =>
+  axis.anchors.map(a => `- ${formatValue(a.value)} (${a.label}): ${a.description}`).join('\n');
+
+const anchorNames = (axis: FrameworkAxis) => axis.anchors.map(a => a.label).filter(Boolean).join(', ');
+
+// Appended to every template so custom frameworks get rationales without repeating the instructions
+const explanationBlock = (framework: MoralFramework) => `
+      EXPLANATION:
+      - Also return 'y_rationale' and 'x_rationale': one short sentence each explaining that axis' score.
+      - Also return 'y_anchor' and 'x_anchor': the name of the nearest rubric anchor for each axis.
+        Y anchors: ${anchorNames(framework.axes.y) || 'none defined (leave empty)'}
+        X anchors: ${anchorNames(framework.axes.x) || 'none defined (leave empty)'}
+    `;
+
+// Third dimension, asked of every framework: how much is at stake, independent of right and wrong
+const magnitudeBlock = `
+      CONSEQUENCE MAGNITUDE:
+      - Also return 'z' (float, 0.0 to 1.0): the magnitude of the consequences, regardless of their moral sign.
+      - Consider how many people are affected, how severely, and how reversible the outcome is.
+      - 0.0 = trivial and fleeting (a white lie about a haircut). 0.5 = serious harm or help to one life.
+      - 1.0 = catastrophic or irreversible, or affecting many lives (a lie that ruins a life, a mass rescue).
+    `;
+
+// Rubric text writes "The Mortal" where the anchor label is "Mortal"; models echo either form
+const anchorKey = (label: string) => label.trim().toLowerCase().replace(/^the\s+/, '');
+
+// Rubric anchor a model-reported name refers to (case-insensitive, leading "the" ignored)
+export const findAnchor = (axis: FrameworkAxis, name: string | undefined): RubricAnchor | undefined =>
+  name ? axis.anchors.find(a => anchorKey(a.label) === anchorKey(name)) : undefined;
+
+export const nearestAnchor = (axis: FrameworkAxis, value: number): RubricAnchor | undefined =>
+  axis.anchors.reduce<RubricAnchor | undefined>((best, a) =>
+    !best || Math.abs(a.value - value) < Math.abs(best.value - value) ? a : best, undefined);
+
+// Y-cache hit: the action axis is settled, so the call only has to judge the intent
+export type KnownActionWeight = Pick<YCacheEntry, 'y' | 'yMin' | 'yMax'>;
+
+const knownWeightBlock = ({ y, yMin, yMax }: KnownActionWeight) => `
+      KNOWN ACTION WEIGHT:
+      - The Y-axis for this action is already fixed at ${y}${yMin !== undefined && yMax !== undefined ? ` (interval [${yMin}, ${yMax}])` : ''}. Do NOT re-judge the action.
+      - Return exactly that 'y' and spend your judgement on the intent (X-axis) only.
+    `;
+
+export const renderPrompt = (framework: MoralFramework, action: string, intent: string, knownY?: KnownActionWeight): string => {
+  const values: Record<string, string> = {
+    action: escapePromptText(action),
+    intent: escapePromptText(intent),
+    x_axis: framework.axes.x.name,
+    y_axis: framework.axes.y.name,
+    x_rubric: rubricText(framework.axes.x),
+    y_rubric: rubricText(framework.axes.y),
+  };
+  // Function replacer so `$` sequences in user text are not treated as patterns
+  const prompt = framework.promptTemplate.replace(/\{\{(\w+)\}\}/g, (match, name: string) => values[name] ?? match);
+  return `${prompt}\n${untrustedInputBlock}\n${knownY ? `${knownWeightBlock(knownY)}\n` : ''}${magnitudeBlock}\n${explanationBlock(framework)}`;
+};
+
+// --- Editing ---
+
+// Anchors are edited as one "value | label | description | #color" line each
+export const anchorsToText = (anchors: RubricAnchor[]) =>
+  anchors.map(a => [formatValue(a.value), a.label, a.description, a.color].filter(v => v !== undefined).join(' | ')).join('\n');
+
+const checkAnchor = (anchor: RubricAnchor, axisName: string, index: number): RubricAnchor => {
+  if (!Number.isFinite(anchor.value) || anchor.value < -1 || anchor.value > 1) {
+    throw new Error(`${axisName} anchor ${index + 1}: value must be a number in [-1, 1]`);
+  }
+  if (anchor.color !== undefined && !HEX_COLOR.test(anchor.color)) {
+    throw new Error(`${axisName} anchor ${index + 1}: color must look like #34d399`);
+  }
+  return anchor;
+};
+
+const byValue = (a: RubricAnchor, b: RubricAnchor) => a.value - b.value;
+
+export const parseAnchors = (text: string, axisName: string): RubricAnchor[] =>
+  text.split('\n').filter(line => line.trim()).map((line, i) => {
+    const [value, label = '', description = '', color] = line.split('|').map(part => part.trim());
+    return checkAnchor({ value: value === '' ? NaN : Number(value), label, description, ...(color && { color }) }, axisName, i);
+  }).sort(byValue);
+
+// Starts a user-owned copy; the id is fresh so points of the original stay attributed to it
+export const copyFramework = (source: MoralFramework, name: string): MoralFramework => ({
+  ...structuredClone(source),
+  id: `custom-${newId()}`,
+  version: 1,
+  name,
+  badge: name
+});
+
+const sameContent = (a: MoralFramework, b: MoralFramework) =>
+  JSON.stringify({ ...a, version: 0 }) === JSON.stringify({ ...b, version: 0 });
+
+// Any saved change produces a new version so plotted points keep pointing at what produced them
+export const nextVersion = (previous: MoralFramework, edited: MoralFramework): MoralFramework =>
+  sameContent(previous, edited) ? previous : { ...edited, version: previous.version + 1 };
+
+// --- Validation (editor saves and imports) ---
+
+const requireText = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value.trim()) throw new Error(`${field} is required`);
+  return value;
+};
+
+const parseAxis = (raw: unknown, axisName: string): FrameworkAxis => {
+  const axis = (raw ?? {}) as Partial<FrameworkAxis>;
+  if (!Array.isArray(axis.anchors)) throw new Error(`${axisName} anchors must be a list`);
+  return {
+    name: requireText(axis.name, `${axisName} name`),
+    anchors: axis.anchors.map((a, i) => checkAnchor({
+      value: Number(a?.value),
+      label: String(a?.label ?? ''),
+      description: String(a?.description ?? ''),
+      ...(typeof a?.color === 'string' && { color: a.color })
+    }, axisName, i)).sort(byValue)
+  };
+};
+
+export const parseFramework = (raw: unknown): MoralFramework => {
+  if (typeof raw !== 'object' || raw === null) throw new Error("Framework must be a JSON object");
+  const fw = raw as Partial<MoralFramework>;
+
+  const promptTemplate = requireText(fw.promptTemplate, 'Prompt template');
+  for (const placeholder of PROMPT_PLACEHOLDERS.slice(0, 2)) {
+    if (!promptTemplate.includes(placeholder)) throw new Error(`Prompt template must contain ${placeholder}`);
+  }
+
+  const quadrants = {} as Record<QuadrantKey, QuadrantStyle>;
+  for (const key of ['q1', 'q2', 'q3', 'q4'] as QuadrantKey[]) {
+    const q = (fw.quadrants?.[key] ?? {}) as Partial<QuadrantStyle>;
+    const label = requireText(q.label, `Quadrant ${key.toUpperCase()} label`);
+    if (typeof q.color !== 'string' || !HEX_COLOR.test(q.color)) throw new Error(`Quadrant ${key.toUpperCase()} color must look like #34d399`);
+    quadrants[key] = { label, legend: typeof q.legend === 'string' && q.legend.trim() ? q.legend : label, color: q.color };
+  }
+
+  const name = requireText(fw.name, 'Name');
+  return {
+    id: requireText(fw.id, 'Id'),
+    version: Number.isInteger(fw.version) && fw.version! > 0 ? fw.version! : 1,
+    name,
+    badge: typeof fw.badge === 'string' && fw.badge.trim() ? fw.badge : name,
+    tagline: typeof fw.tagline === 'string' && fw.tagline.trim() ? fw.tagline : name,
+    description: typeof fw.description === 'string' ? fw.description : '',
+    analyzeLabel: typeof fw.analyzeLabel === 'string' && fw.analyzeLabel.trim() ? fw.analyzeLabel : 'Analyze',
+    placeholders: {
+      action: typeof fw.placeholders?.action === 'string' ? fw.placeholders.action : '',
+      intent: typeof fw.placeholders?.intent === 'string' ? fw.placeholders.intent : ''
+    },
+    promptTemplate,
+    axes: { x: parseAxis(fw.axes?.x, 'X axis'), y: parseAxis(fw.axes?.y, 'Y axis') },
+    quadrants
+  };
+};
+
+// --- Import / Export ---
+export const frameworkToJSON = (framework: MoralFramework): string =>
+  JSON.stringify({ exportedAt: new Date().toISOString(), framework }, null, 2);
+
+// Accepts the exported envelope or a bare framework object
+export const parseFrameworkFile = (text: string): MoralFramework => {
+  const parsed = JSON.parse(text);
+  return parseFramework(parsed?.framework ?? parsed);
+};
+
+// Imports never overwrite a built-in; a changed copy of a custom framework replaces it as a newer version
+export const mergeImportedFramework = (custom: MoralFramework[], imported: MoralFramework): { frameworks: MoralFramework[]; framework: MoralFramework } => {
+  if (isBuiltIn(imported.id)) {
+    const framework = { ...imported, id: `custom-${newId()}`, version: 1 };
+    return { frameworks: [...custom, framework], framework };
+  }
+  const existing = custom.find(f => f.id === imported.id);
+  if (!existing) return { frameworks: [...custom, imported], framework: imported };
+
+  const framework = sameContent(existing, imported)
+    ? existing
+    : { ...imported, version: Math.max(imported.version, existing.version + 1) };
+  return { frameworks: custom.map(f => f.id === framework.id ? framework : f), framework };
+};
+
+// --- Persistence ---
+// Only user-defined frameworks are stored; built-ins always come from the code.
+const FRAMEWORKS_STORAGE_KEY = 'moral-analyzer:frameworks';
+
+export const loadCustomFrameworks = (): MoralFramework[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(FRAMEWORKS_STORAGE_KEY) || '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap(raw => {
+      try {
+        const framework = parseFramework(raw);
+        return isBuiltIn(framework.id) ? [] : [framework];
+      } catch (err) {
+        console.error(err);
+        return [];
+      }
+    });
+  } catch {
+    // Corrupt storage falls back to the built-ins only
+    return [];
+  }
+};
+
+export const saveCustomFrameworks = (frameworks: MoralFramework[]) => {
+  localStorage.setItem(FRAMEWORKS_STORAGE_KEY, JSON.stringify(frameworks));
+};
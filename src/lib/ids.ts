@@ -0,0 +1,2 @@
+// Unique enough for client-side records created in the same millisecond (batches, imports)
+export const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,145 @@
+import type { MoralPoint } from './types';
+import { availableProviders, defaultSettingsFor, getProvider } from './providers';
+import type { ProviderId, ProviderSettings } from './providers';
+import { newId } from './ids';
+
+// --- Model Lineup ---
+// One scenario, several oracles: each target is a provider / model / endpoint the scenario is sent
+// to in parallel. The answers share a model group, and each model keeps one marker shape everywhere.
+
+export type ModelTarget = {
+  id: string;
+  providerId: ProviderId;
+  model: string;
+  endpoint: string;
+  apiKey: string; // Own key for this target, kept in memory only; blank falls back to the shared one
+};
+
+export type ModelLineup = {
+  enabled: boolean;
+  targets: ModelTarget[];
+};
+
+export const MAX_LINEUP_TARGETS = 6;
+
+export const MARKER_SHAPES = ['circle', 'square', 'triangle', 'diamond', 'star', 'cross'] as const;
+export type MarkerShape = typeof MARKER_SHAPES[number];
+
+export const createTarget = (providerId: ProviderId, envApiKey = '', proxyUrl = ''): ModelTarget => {
+  const { model, endpoint } = defaultSettingsFor(providerId, envApiKey, proxyUrl);
+  return { id: newId(), providerId, model, endpoint, apiKey: '' };
+};
+
+const hostOf = (endpoint: string) => {
+  try {
+    return new URL(endpoint).host;
+  } catch {
+    return endpoint;
+  }
+};
+
+// Names the endpoint too when it is not the provider's default, so two servers of one model stay apart
+export const targetLabel = (target: Pick<ModelTarget, 'providerId' | 'model' | 'endpoint'>) => {
+  const provider = getProvider(target.providerId);
+  if (provider.id === 'proxy') return provider.label;
+  const custom = target.endpoint && target.endpoint !== provider.defaultEndpoint;
+  return `${provider.label} · ${target.model}${custom ? ` @ ${hostOf(target.endpoint)}` : ''}`;
+};
+
+// Full settings for one target: its own key wins; otherwise keys are only shared with targets of the current provider
+export const settingsForTarget = (target: ModelTarget, current: ProviderSettings, envApiKey = '', proxyUrl = ''): ProviderSettings => {
+  const defaults = defaultSettingsFor(target.providerId, envApiKey, proxyUrl);
+  return {
+    ...defaults,
+    model: target.model || defaults.model,
+    endpoint: target.endpoint || defaults.endpoint,
+    apiKey: target.apiKey || (target.providerId === current.providerId ? current.apiKey : defaults.apiKey),
+    validation: current.validation,
+    timeoutSeconds: current.timeoutSeconds
+  };
+};
+
+// --- Persistence (targets only; keys never leave memory) ---
+const LINEUP_STORAGE_KEY = 'moral-analyzer:model-lineup';
+
+export const loadLineup = (envApiKey: string, proxyUrl = ''): ModelLineup => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LINEUP_STORAGE_KEY) || 'null');
+    const allowed = new Set(availableProviders(proxyUrl).map(p => p.id));
+    const targets = (Array.isArray(stored?.targets) ? stored.targets : [])
+      .filter((t: Partial<ModelTarget>) => allowed.has(t?.providerId as ProviderId) && typeof t.model === 'string' && typeof t.endpoint === 'string')
+      .map((t: ModelTarget) => ({ id: newId(), providerId: t.providerId, model: t.model, endpoint: t.endpoint, apiKey: '' }))
+      .slice(0, MAX_LINEUP_TARGETS);
+    if (targets.length) return { enabled: stored.enabled === true, targets };
+  } catch {
+    // Corrupt entry: fall back to the default lineup
+  }
+  const first = availableProviders(proxyUrl)[0].id;
+  return { enabled: false, targets: [createTarget(first, envApiKey, proxyUrl), createTarget('mock', envApiKey, proxyUrl)] };
+};
+
+export const saveLineup = ({ enabled, targets }: ModelLineup) => {
+  localStorage.setItem(LINEUP_STORAGE_KEY, JSON.stringify({
+    enabled,
+    targets: targets.map(({ providerId, model, endpoint }) => ({ providerId, model, endpoint }))
+  }));
+};
+
+// --- Groups & Dispersion ---
+
+// Members of one model group in lineup order
+export const modelGroupMembers = (points: MoralPoint[], modelGroupId: string): MoralPoint[] =>
+  points.filter(p => p.modelGroupId === modelGroupId).sort((a, b) => (a.modelStep ?? 0) - (b.modelStep ?? 0));
+
+// Every model that answered a group, in order of first appearance; a model's index picks its marker
+export const modelLegend = (points: MoralPoint[]): string[] =>
+  [...new Set(points.flatMap(p => p.modelGroupId && p.modelLabel ? [p.modelLabel] : []))];
+
+export const markerFor = (legend: string[], modelLabel: string): MarkerShape =>
+  MARKER_SHAPES[Math.max(0, legend.indexOf(modelLabel)) % MARKER_SHAPES.length];
+
+const polygon = (cx: number, cy: number, points: [number, number][]) =>
+  `M${points.map(([x, y]) => `${cx + x},${cy + y}`).join('L')}Z`;
+
+// Outline of a marker as an SVG path; shared by the chart markers and the exported legend
+export const markerPath = (shape: MarkerShape, cx: number, cy: number, r: number): string => {
+  switch (shape) {
+    case 'circle':
+      return `M${cx - r},${cy}a${r},${r} 0 1,0 ${2 * r},0a${r},${r} 0 1,0 ${-2 * r},0Z`;
+    case 'square': {
+      const s = r * 0.85;
+      return polygon(cx, cy, [[-s, -s], [s, -s], [s, s], [-s, s]]);
+    }
+    case 'triangle':
+      return polygon(cx, cy, [[0, -r * 1.1], [r, r * 0.7], [-r, r * 0.7]]);
+    case 'diamond':
+      return polygon(cx, cy, [[0, -r * 1.15], [r * 1.15, 0], [0, r * 1.15], [-r * 1.15, 0]]);
+    case 'star':
+      return polygon(cx, cy, Array.from({ length: 10 }, (_, i) => {
+        const angle = (Math.PI / 5) * i - Math.PI / 2;
+        const radius = i % 2 === 0 ? r * 1.25 : r * 0.55;
+        return [radius * Math.cos(angle), radius * Math.sin(angle)] as [number, number];
+      }));
+    case 'cross': {
+      const a = r * 0.35;
+      const b = r;
+      return polygon(cx, cy, [[-a, -b], [a, -b], [a, -a], [b, -a], [b, a], [a, a], [a, b], [-a, b], [-a, a], [-b, a], [-b, -a], [-a, -a]]);
+    }
+  }
+};
+
+export type AxisSpread = { min: number; max: number; range: number; sd: number };
+
+const spreadOf = (values: number[]): AxisSpread => {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const sd = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return { min, max, range: max - min, sd };
+};
+
+// Disagreement between the models of one group, on their own answers: a reviewer's override is not a model's
+export const modelSpread = (members: MoralPoint[]): { x: AxisSpread; y: AxisSpread } => ({
+  x: spreadOf(members.map(p => p.x)),
+  y: spreadOf(members.map(p => p.y))
+});
@@ -0,0 +1,443 @@
+import type { AnalysisResult } from './types';
+import { RATIONALE_FIELDS, RESPONSE_FIELDS } from './prompts';
+import { isBuiltIn, nearestAnchor, renderPrompt } from './frameworks';
+import type { KnownActionWeight, MoralFramework } from './frameworks';
+import { AnalysisError, abortError, httpError, parseRetryAfter } from './errors';
+import { validateResult } from './validation';
+import type { RawAnalysis, ValidationPolicy } from './validation';
+
+// --- Provider Types ---
+export type ProviderId = 'gemini' | 'openai' | 'ollama' | 'proxy' | 'mock';
+
+export type ProviderSettings = {
+  providerId: ProviderId;
+  model: string;
+  endpoint: string;
+  apiKey: string;
+  validation: ValidationPolicy;
+  timeoutSeconds: number; // Per request; a retry starts a fresh clock
+};
+
+export const DEFAULT_TIMEOUT_SECONDS = 60;
+
+export type AnalysisRequest = {
+  action: string;
+  intent: string;
+  framework: MoralFramework;
+  temperature?: number; // Provider default when omitted (ensemble runs sweep it)
+  knownY?: KnownActionWeight; // Set on a Y-cache hit: only the intent axis is asked for
+  signal?: AbortSignal;       // Cancels the call (the UI's Cancel button)
+  useCache?: boolean;         // false: the team proxy neither reads nor writes its shared Y-cache
+};
+
+// Gemini-style response schema ({ type: 'OBJECT', properties, required }); other backends only get JSON mode
+export type ResponseSchema = Record<string, unknown>;
+
+export type GenerateOptions = {
+  temperature?: number; // Provider default when omitted (ensemble runs sweep it)
+  schema: ResponseSchema;
+  offline: () => RawAnalysis; // What the mock provider answers for this task
+  signal?: AbortSignal;       // Already includes the request timeout when it reaches a provider
+};
+
+export type AnalysisProvider = {
+  id: ProviderId;
+  label: string;
+  defaultModel: string;
+  defaultEndpoint: string;
+  needsApiKey: boolean;
+  // Sends one prompt and returns the model's JSON object as-is; callers validate it
+  generate: (prompt: string, settings: ProviderSettings, options: GenerateOptions) => Promise<RawAnalysis>;
+  // Scores a whole scenario remotely instead of sending a local prompt (team proxy)
+  analyze?: (request: AnalysisRequest, settings: ProviderSettings) => Promise<AnalysisResult>;
+};
+
+// --- Shared Helpers ---
+
+export const parseResultText = (resultText: string | undefined | null): RawAnalysis => {
+  if (!resultText || !resultText.trim()) {
+    throw new AnalysisError('empty', "The model returned an empty answer. Please try again.");
+  }
+
+  let parsed: unknown;
+  try {
+    // Some backends wrap JSON in a markdown fence despite being asked not to
+    parsed = JSON.parse(resultText.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+  } catch {
+    throw new AnalysisError('malformed-json', "The model's answer was not valid JSON.");
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new AnalysisError('malformed-json', "The model's answer was not a JSON object.");
+  }
+  return parsed as RawAnalysis;
+};
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+// The caller's cancel signal plus the per-request time limit
+const requestSignal = (settings: ProviderSettings, signal?: AbortSignal) => {
+  const timeout = AbortSignal.timeout(settings.timeoutSeconds * 1000);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+};
+
+const postJSON = async (providerLabel: string, url: string, body: unknown, headers: Record<string, string> = {}, signal?: AbortSignal) => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch {
+    if (signal?.aborted) throw abortError(signal.reason, providerLabel);
+    throw new AnalysisError('network', `Could not reach ${providerLabel}. Check the endpoint and your connection.`);
+  }
+
+  if (!response.ok) throw httpError(response.status, providerLabel, response.headers.get('Retry-After'));
+
+  try {
+    return await response.json();
+  } catch {
+    if (signal?.aborted) throw abortError(signal.reason, providerLabel);
+    throw new AnalysisError('malformed-json', `${providerLabel} returned a response that is not JSON.`);
+  }
+};
+
+const blocked = (providerLabel: string, reason: string) =>
+  new AnalysisError('blocked', `${providerLabel} blocked this scenario (${reason}). Try rephrasing it.`);
+
+// --- Gemini ---
+const geminiProvider: AnalysisProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModel: 'gemini-2.5-flash-preview-09-2025',
+  defaultEndpoint: 'https://generativelanguage.googleapis.com/v1beta',
+  needsApiKey: true,
+  generate: async (prompt, settings, { temperature, schema, signal }) => {
+    const data = await postJSON(
+      geminiProvider.label,
+      `${trimSlash(settings.endpoint)}/models/${settings.model}:generateContent?key=${settings.apiKey}`,
+      {
+        contents: [{ parts: [{ text: prompt }] }],
+        generationConfig: {
+          ...(temperature !== undefined && { temperature }),
+          responseMimeType: "application/json",
+          responseSchema: schema
+        }
+      },
+      {},
+      signal
+    );
+    if (data.promptFeedback?.blockReason) throw blocked(geminiProvider.label, data.promptFeedback.blockReason);
+
+    const candidate = data.candidates?.[0];
+    if (!candidate) throw new AnalysisError('empty', `${geminiProvider.label} returned no candidates.`);
+    if (['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'RECITATION'].includes(candidate.finishReason) && !candidate.content?.parts?.length) {
+      throw blocked(geminiProvider.label, candidate.finishReason);
+    }
+    return parseResultText(candidate.content?.parts?.[0]?.text);
+  }
+};
+
+// --- OpenAI-compatible (OpenAI, vLLM, LM Studio, OpenRouter, ...) ---
+const openaiProvider: AnalysisProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  defaultModel: 'gpt-4o-mini',
+  defaultEndpoint: 'https://api.openai.com/v1',
+  needsApiKey: true,
+  generate: async (prompt, settings, { temperature, signal }) => {
+    const data = await postJSON(
+      openaiProvider.label,
+      `${trimSlash(settings.endpoint)}/chat/completions`,
+      {
+        model: settings.model,
+        messages: [{ role: "user", content: prompt }],
+        ...(temperature !== undefined && { temperature }),
+        response_format: { type: "json_object" }
+      },
+      settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {},
+      signal
+    );
+    const choice = data.choices?.[0];
+    if (!choice) throw new AnalysisError('empty', `${openaiProvider.label} returned no choices.`);
+    if (choice.finish_reason === 'content_filter') throw blocked(openaiProvider.label, 'content filter');
+    if (choice.message?.refusal) throw blocked(openaiProvider.label, 'refusal');
+    return parseResultText(choice.message?.content);
+  }
+};
+
+// --- Ollama-style local server ---
+const ollamaProvider: AnalysisProvider = {
+  id: 'ollama',
+  label: 'Ollama (local)',
+  defaultModel: 'llama3.1',
+  defaultEndpoint: 'http://localhost:11434',
+  needsApiKey: false,
+  generate: async (prompt, settings, { temperature, signal }) => {
+    const data = await postJSON(
+      ollamaProvider.label,
+      `${trimSlash(settings.endpoint)}/api/generate`,
+      {
+        model: settings.model,
+        prompt,
+        format: "json",
+        stream: false,
+        ...(temperature !== undefined && { options: { temperature } })
+      },
+      {},
+      signal
+    );
+    return parseResultText(data.response);
+  }
+};
+
+// --- Mock (deterministic, offline) ---
+
+// Keyword anchors loosely following the README rubric; unknown text falls back to a stable hash
+const ACTION_ANCHORS: [RegExp, number][] = [
+  [/\b(rape|torture|genocide)/i, -1.0],
+  [/\b(kill|murder|abort)/i, -0.8],
+  [/\b(punch|hit|beat|assault)/i, -0.5],
+  [/\b(steal|lie|cheat|betray)/i, -0.4],
+  [/\b(walk|eat|sleep|sit)/i, 0.0],
+  [/\b(give|donate|share|help)/i, 0.5],
+  [/\b(heal|rescue|save)/i, 1.0],
+];
+
+const INTENT_ANCHORS: [RegExp, number][] = [
+  [/\b(fun|sadis|just because|enjoy)/i, -1.0],
+  [/\b(reveng|spite|hate|hatred)/i, -0.8],
+  [/\b(money|greed|profit|rich)/i, -0.5],
+  [/\b(lazy|convenien|bored)/i, -0.2],
+  [/\b(afraid|fear|duty|habit|danger)/i, 0.0],
+  [/\b(love|family|friend|child|kin)/i, 0.5],
+  [/\b(compassion|mercy|stranger)/i, 0.8],
+  [/\b(sacrific|everyone|humanity)/i, 1.0],
+];
+
+const hashUnit = (text: string) => {
+  let hash = 0;
+  for (const char of text.trim().toLowerCase()) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return ((Math.abs(hash) % 2001) - 1000) / 1000; // [-1, 1]
+};
+
+const scoreText = (text: string, anchors: [RegExp, number][]) => {
+  const match = anchors.find(([pattern]) => pattern.test(text));
+  // Unknown signals drift near the origin and are reported as noisy
+  return match
+    ? { value: match[1], spread: 0.1, keyword: text.match(match[0])?.[0] }
+    : { value: hashUnit(text) * 0.3, spread: 0.4, keyword: undefined };
+};
+
+const mockRationale = (axis: string, keyword: string | undefined) =>
+  keyword ? `The ${axis} contains the signal word "${keyword}".` : `No known ${axis} signal; scored near neutral.`;
+
+const clampUnit = (value: number) => Math.max(-1, Math.min(1, value));
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Offline answer to the analysis prompt, used by the mock provider
+const mockAnalysis = ({ action, intent, framework, temperature = 0 }: AnalysisRequest): RawAnalysis => {
+  // Higher temperatures wobble the answer, reproducibly for the same scenario and temperature
+  const jitter = (salt: string) => hashUnit(`${action}|${intent}|${salt}|${temperature}`) * temperature * 0.15;
+  const y = scoreText(action, ACTION_ANCHORS);
+  const x = scoreText(intent, INTENT_ANCHORS);
+  const yValue = clampUnit(y.value + jitter('y'));
+  const xValue = clampUnit(x.value + jitter('x'));
+  return {
+    x: round2(xValue),
+    y: round2(yValue),
+    x_min: round2(clampUnit(xValue - x.spread)),
+    x_max: round2(clampUnit(xValue + x.spread)),
+    y_min: round2(clampUnit(yValue - y.spread)),
+    y_max: round2(clampUnit(yValue + y.spread)),
+    z: round2(Math.abs(yValue)), // Heavier acts stand in for heavier consequences
+    x_rationale: mockRationale('intent', x.keyword),
+    x_anchor: nearestAnchor(framework.axes.x, xValue)?.label,
+    y_rationale: mockRationale('action', y.keyword),
+    y_anchor: nearestAnchor(framework.axes.y, yValue)?.label
+  };
+};
+
+// --- Team Proxy (the server in /server holds the key and the shared Y-cache) ---
+
+// The server answers with a finished AnalysisResult; it goes back through the same checks as a model's
+// raw output, so the user's repair / reject setting holds in proxy mode too.
+const validateProxyResult = (data: Record<string, unknown>, policy: ValidationPolicy): AnalysisResult => {
+  const rationale = data.rationale as AnalysisResult['rationale'] | undefined;
+  const result = validateResult({
+    x: data.x,
+    y: data.y,
+    x_min: data.xMin,
+    x_max: data.xMax,
+    y_min: data.yMin,
+    y_max: data.yMax,
+    z: data.z,
+    x_rationale: rationale?.x?.text,
+    x_anchor: rationale?.x?.anchor,
+    y_rationale: rationale?.y?.text,
+    y_anchor: rationale?.y?.anchor
+  }, policy);
+
+  // Repairs the server already made count against the policy like local ones
+  const serverRepairs = Array.isArray(data.repairs) ? data.repairs.filter((r): r is string => typeof r === 'string') : [];
+  if (serverRepairs.length && policy === 'reject') {
+    throw new AnalysisError('invalid-result', `Model output rejected: ${serverRepairs[0]}.`);
+  }
+  const repairs = [...serverRepairs, ...(result.repairs ?? [])];
+
+  const served = data.servedBy as Record<string, unknown> | undefined;
+  const servedBy = typeof served?.providerId === 'string' && typeof served.model === 'string'
+    ? { providerId: served.providerId, model: served.model }
+    : undefined;
+
+  return { ...result, ...(repairs.length > 0 && { repairs }), ...(servedBy && { servedBy }) };
+};
+// The browser only sends the scenario; prompts, key and model stay on the server.
+const proxyProvider: AnalysisProvider = {
+  id: 'proxy',
+  label: 'Team Proxy',
+  defaultModel: 'server default',
+  defaultEndpoint: '/api/analyze',
+  needsApiKey: false,
+  generate: async () => {
+    throw new AnalysisError('unsupported', "The team proxy only scores scenarios. Switch to a direct provider for this feature.");
+  },
+  analyze: async ({ action, intent, framework, temperature, signal, useCache }, settings) => {
+    let response: Response;
+    try {
+      response = await fetch(settings.endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        // Built-ins are known to the server by id; custom frameworks travel with the request
+        body: JSON.stringify({
+          action, intent, mode: framework.id, temperature,
+          ...(!isBuiltIn(framework.id) && { framework }),
+          ...(useCache === false && { useCache: false })
+        }),
+        signal
+      });
+    } catch {
+      if (signal?.aborted) throw abortError(signal.reason, `The ${proxyProvider.label}`);
+      throw new AnalysisError('network', `Could not reach the ${proxyProvider.label}. Check the endpoint and your connection.`);
+    }
+
+    const data = await response.json().catch(() => null);
+    if (signal?.aborted) throw abortError(signal.reason, `The ${proxyProvider.label}`);
+    if (!response.ok) {
+      const retryAfter = response.headers.get('Retry-After');
+      if (response.status === 429) throw httpError(429, proxyProvider.label, retryAfter);
+      if (typeof data?.error === 'string') {
+        throw new AnalysisError(data.code ?? (response.status >= 500 ? 'http-server' : 'http-client'), data.error, response.status, parseRetryAfter(retryAfter));
+      }
+      throw httpError(response.status, proxyProvider.label, retryAfter);
+    }
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      throw new AnalysisError('invalid-result', `${proxyProvider.label} returned an unexpected response.`);
+    }
+    return validateProxyResult(data, settings.validation);
+  }
+};
+
+const mockProvider: AnalysisProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  defaultModel: 'mock-oracle-v1',
+  defaultEndpoint: '',
+  needsApiKey: false,
+  generate: async (_prompt, _settings, { offline }) => offline()
+};
+
+// --- Registry ---
+export const PROVIDERS: Record<ProviderId, AnalysisProvider> = {
+  gemini: geminiProvider,
+  openai: openaiProvider,
+  ollama: ollamaProvider,
+  proxy: proxyProvider,
+  mock: mockProvider,
+};
+
+export const getProvider = (id: ProviderId): AnalysisProvider => PROVIDERS[id] ?? geminiProvider;
+
+// Proxy mode (a proxy URL is configured at build time): the browser never talks to a model directly
+export const availableProviders = (proxyUrl = ''): AnalysisProvider[] =>
+  proxyUrl ? [proxyProvider, mockProvider] : Object.values(PROVIDERS);
+
+// Any JSON task (analysis, intent generation, ...): key check, then the provider call
+export const runJsonTask = async (prompt: string, settings: ProviderSettings, options: GenerateOptions): Promise<RawAnalysis> => {
+  const provider = getProvider(settings.providerId);
+  if (provider.needsApiKey && !settings.apiKey) {
+    throw new AnalysisError('missing-key', `No API key configured for ${provider.label}. Add one in the provider settings.`);
+  }
+  return provider.generate(prompt, settings, { ...options, signal: requestSignal(settings, options.signal) });
+};
+
+const ANALYSIS_SCHEMA: ResponseSchema = {
+  type: "OBJECT",
+  properties: Object.fromEntries([
+    ...RESPONSE_FIELDS.map(field => [field, { type: "NUMBER" }]),
+    ...RATIONALE_FIELDS.map(field => [field, { type: "STRING" }])
+  ]),
+  required: ["x", "y"]
+};
+
+const INTENT_ONLY_SCHEMA: ResponseSchema = { ...ANALYSIS_SCHEMA, required: ["x"] };
+
+// Single entry point for scoring a scenario: framework prompt, provider call, then validation of the returned JSON
+export const runAnalysis = async (request: AnalysisRequest, settings: ProviderSettings): Promise<AnalysisResult> => {
+  const provider = getProvider(settings.providerId);
+  if (provider.analyze) return provider.analyze({ ...request, signal: requestSignal(settings, request.signal) }, settings);
+
+  const { framework, action, intent, knownY } = request;
+  const raw = await runJsonTask(renderPrompt(framework, action, intent, knownY), settings, {
+    temperature: request.temperature,
+    signal: request.signal,
+    schema: knownY ? INTENT_ONLY_SCHEMA : ANALYSIS_SCHEMA,
+    offline: () => mockAnalysis(request)
+  });
+  // A known weight always wins over whatever the model echoed back for Y
+  return validateResult(knownY ? { ...raw, y: knownY.y, y_min: knownY.yMin, y_max: knownY.yMax } : raw, settings.validation);
+};
+
+// Only Gemini picks up the build-time key (VITE_GOOGLE_API_KEY); other providers start blank.
+// The proxy endpoint comes from VITE_ANALYZER_PROXY_URL when configured.
+export const defaultSettingsFor = (id: ProviderId, envApiKey = '', proxyUrl = ''): ProviderSettings => {
+  const provider = getProvider(id);
+  return {
+    providerId: provider.id,
+    model: provider.defaultModel,
+    endpoint: provider.id === 'proxy' && proxyUrl ? proxyUrl : provider.defaultEndpoint,
+    apiKey: provider.id === 'gemini' ? envApiKey : '',
+    validation: 'repair',
+    timeoutSeconds: DEFAULT_TIMEOUT_SECONDS
+  };
+};
+
+// --- Settings Persistence ---
+// API keys are deliberately kept in memory only; everything else survives a reload.
+const SETTINGS_STORAGE_KEY = 'moral-analyzer:provider-settings';
+
+export const loadProviderSettings = (envApiKey: string, proxyUrl = ''): ProviderSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || 'null');
+    if (stored && availableProviders(proxyUrl).some(p => p.id === stored.providerId)) {
+      return {
+        ...defaultSettingsFor(stored.providerId, envApiKey, proxyUrl),
+        model: stored.model,
+        endpoint: stored.endpoint,
+        validation: stored.validation === 'reject' ? 'reject' : 'repair',
+        timeoutSeconds: Number.isFinite(stored.timeoutSeconds) && stored.timeoutSeconds > 0 ? stored.timeoutSeconds : DEFAULT_TIMEOUT_SECONDS
+      };
+    }
+  } catch {
+    // Corrupt settings fall through to defaults
+  }
+  return proxyUrl ? defaultSettingsFor('proxy', envApiKey, proxyUrl) : defaultSettingsFor('gemini', envApiKey);
+};
+
+export const saveProviderSettings = ({ providerId, model, endpoint, validation, timeoutSeconds }: ProviderSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify({ providerId, model, endpoint, validation, timeoutSeconds }));
+};
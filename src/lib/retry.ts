@@ -0,0 +1,52 @@
+import { AnalysisError, isRetryable } from './errors';
+
+const cancelled = () => new AnalysisError('aborted', 'Analysis cancelled.');
+
+// Resolves after ms; rejects at once when the signal fires
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(cancelled());
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(cancelled());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Longest Retry-After we are willing to sit out; anything longer fails with the server's message
+export const MAX_RETRY_WAIT_MS = 60_000;
+
+export type RetryInfo = {
+  attempt: number;  // The attempt about to start (2 = first retry)
+  attempts: number;
+  waitMs: number;
+  error: unknown;   // What made the previous attempt fail
+};
+
+export type RetryOptions = {
+  attempts?: number;
+  signal?: AbortSignal;
+  onRetry?: (info: RetryInfo) => void;
+};
+
+// Retries only failures that may pass on their own; waits the server's Retry-After when it sent one,
+// exponential backoff (1s, 2s, ...) otherwise
+export const withRetry = async <T>(fn: () => Promise<T>, { attempts = 3, signal, onRetry }: RetryOptions = {}): Promise<T> => {
+  for (let i = 0; ; i++) {
+    if (signal?.aborted) throw cancelled();
+    try {
+      return await fn();
+    } catch (e) {
+      const waitMs = e instanceof AnalysisError && e.retryAfterMs !== undefined ? e.retryAfterMs : Math.pow(2, i) * 1000;
+      if (i >= attempts - 1 || signal?.aborted || !isRetryable(e) || waitMs > MAX_RETRY_WAIT_MS) throw e;
+      onRetry?.({ attempt: i + 2, attempts, waitMs, error: e });
+      await sleep(waitMs, signal);
+    }
+  }
+};
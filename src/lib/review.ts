@@ -0,0 +1,38 @@
+import type { AnalysisMode, MoralPoint } from './types';
+
+// --- Human Review ---
+// A reviewer may move a point to where they think it belongs. The model's coordinates are never
+// overwritten; the chart shows the human placement and the agreement view compares the two.
+
+// Scores set by hand are clamped to the chart and kept at two decimals
+export const roundScore = (value: number) => Math.round(Math.min(1, Math.max(-1, value)) * 100) / 100;
+
+// Where the point is drawn: the human judgment wins over the model
+export const displayedCoords = (point: MoralPoint): { x: number; y: number } =>
+  point.human ? { x: point.human.x, y: point.human.y } : { x: point.x, y: point.y };
+
+// Pointer position inside the plot area (both axes span [-1, 1]) to scores
+export const pointerToScore = (plot: DOMRect, clientX: number, clientY: number) => ({
+  x: roundScore(((clientX - plot.left) / plot.width) * 2 - 1),
+  y: roundScore(1 - ((clientY - plot.top) / plot.height) * 2)
+});
+
+// --- Agreement Statistics ---
+export type AgreementStats = {
+  count: number; // Overridden points
+  x: number;     // Mean absolute difference, human vs model
+  y: number;
+};
+
+export const agreementStats = (points: MoralPoint[]): AgreementStats => {
+  const reviewed = points.filter(p => p.human);
+  const mad = (axis: 'x' | 'y') =>
+    reviewed.length ? reviewed.reduce((sum, p) => sum + Math.abs(p.human![axis] - p[axis]), 0) / reviewed.length : 0;
+  return { count: reviewed.length, x: mad('x'), y: mad('y') };
+};
+
+// Frameworks score different things, so the view also breaks agreement down per framework
+export const agreementByMode = (points: MoralPoint[]): { mode: AnalysisMode; stats: AgreementStats }[] => {
+  const modes = [...new Set(points.filter(p => p.human).map(p => p.mode))];
+  return modes.map(mode => ({ mode, stats: agreementStats(points.filter(p => p.mode === mode)) }));
+};
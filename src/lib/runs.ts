@@ -0,0 +1,79 @@
+import type { AnalysisResult, AnalysisRun, MoralPoint } from './types';
+import type { ProviderSettings } from './providers';
+import type { MoralFramework } from './frameworks';
+import { promptFingerprint } from './benchmark';
+
+// --- Run History & Drift ---
+// Re-analyzing a scenario appends a run instead of replacing the snapshot, so changes between
+// model versions or prompt edits stay visible. The point's own coordinates follow the latest run.
+
+export const DEFAULT_DRIFT_THRESHOLD = 0.2;
+
+// Through the team proxy the client only knows "server default"; the server names the model it ran
+export const createRun = (result: AnalysisResult, settings: ProviderSettings, framework: MoralFramework): AnalysisRun => ({
+  x: result.x,
+  y: result.y,
+  yMin: result.yMin,
+  yMax: result.yMax,
+  xMin: result.xMin,
+  xMax: result.xMax,
+  z: result.z,
+  ranAt: Date.now(),
+  providerId: result.servedBy?.providerId ?? settings.providerId,
+  model: result.servedBy?.model ?? settings.model,
+  frameworkVersion: framework.version,
+  promptVersion: promptFingerprint(framework)
+});
+
+// Points from before run history get a seed run from their current (model) coordinates
+export const runsOf = (point: MoralPoint): AnalysisRun[] => point.runs ?? [{
+  x: point.x,
+  y: point.y,
+  yMin: point.yMin,
+  yMax: point.yMax,
+  xMin: point.xMin,
+  xMax: point.xMax,
+  z: point.z,
+  frameworkVersion: point.frameworkVersion
+}];
+
+// Patch that records a new run and moves the point to it; rationale and ensemble belong to the old answer
+export const appendRun = (point: MoralPoint, run: AnalysisRun, rationale: AnalysisResult['rationale']): Partial<MoralPoint> => ({
+  x: run.x,
+  y: run.y,
+  yMin: run.yMin,
+  yMax: run.yMax,
+  xMin: run.xMin,
+  xMax: run.xMax,
+  z: run.z,
+  rationale,
+  ensemble: undefined,
+  frameworkVersion: run.frameworkVersion ?? point.frameworkVersion,
+  runs: [...runsOf(point), run]
+});
+
+// --- Drift ---
+export type Drift = {
+  point: MoralPoint;
+  runs: number;
+  x: number; // Latest minus first run
+  y: number;
+  exceeds: boolean;
+};
+
+export const driftOf = (point: MoralPoint, threshold: number): Drift | null => {
+  const runs = runsOf(point);
+  if (runs.length < 2) return null;
+  const first = runs[0];
+  const latest = runs[runs.length - 1];
+  const x = latest.x - first.x;
+  const y = latest.y - first.y;
+  return { point, runs: runs.length, x, y, exceeds: Math.abs(x) > threshold || Math.abs(y) > threshold };
+};
+
+// Re-analyzed scenarios, the most drifted first
+export const driftReport = (points: MoralPoint[], threshold: number): Drift[] =>
+  points
+    .map(p => driftOf(p, threshold))
+    .filter((d): d is Drift => d !== null)
+    .sort((a, b) => Math.max(Math.abs(b.x), Math.abs(b.y)) - Math.max(Math.abs(a.x), Math.abs(a.y)));
@@ -0,0 +1,274 @@
+import type { AnalysisMode, AnalysisRun, AxisRationale, HumanJudgment, MoralPoint } from './types';
+import { newId } from './ids';
+import { normalizeTag, parseTags } from './filters';
+import { screenScenario } from './guardrails';
+
+// --- Scenario Import / Export ---
+
+// Column order for CSV files (snake_case mirrors the model response fields)
+const CSV_COLUMNS = ['id', 'label', 'mode', 'framework_version', 'action', 'intent', 'x', 'y', 'x_min', 'x_max', 'y_min', 'y_max', 'x_anchor', 'x_rationale', 'y_anchor', 'y_rationale', 'human_x', 'human_y', 'reviewer', 'notes', 'tags', 'z'] as const;
+
+type CsvColumn = typeof CSV_COLUMNS[number];
+
+export const pointsToJSON = (points: MoralPoint[]): string =>
+  JSON.stringify({ exportedAt: new Date().toISOString(), points }, null, 2);
+
+export const escapeCsv = (value: string | number | undefined) => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRow = (point: MoralPoint): Record<CsvColumn, string | number | undefined> => ({
+  id: point.id,
+  label: point.label,
+  mode: point.mode,
+  framework_version: point.frameworkVersion,
+  action: point.action,
+  intent: point.intent,
+  x: point.x,
+  y: point.y,
+  x_min: point.xMin,
+  x_max: point.xMax,
+  y_min: point.yMin,
+  y_max: point.yMax,
+  x_anchor: point.rationale?.x?.anchor,
+  x_rationale: point.rationale?.x?.text,
+  y_anchor: point.rationale?.y?.anchor,
+  y_rationale: point.rationale?.y?.text,
+  human_x: point.human?.x,
+  human_y: point.human?.y,
+  reviewer: point.reviewer,
+  notes: point.notes,
+  tags: point.tags?.join('; '),
+  z: point.z
+});
+
+export const pointsToCSV = (points: MoralPoint[]): string => {
+  const rows = points.map(point => {
+    const row = csvRow(point);
+    return CSV_COLUMNS.map(column => escapeCsv(row[column])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+};
+
+// RFC 4180-style parser: quoted fields, escaped quotes and embedded newlines
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+// --- Parsing Back Into MoralPoints ---
+const optionalNumber = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : undefined;
+};
+
+const optionalText = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+// JSON files carry the nested MoralPoint shape, CSV files the flat snake_case columns
+const toRationale = (raw: Record<string, unknown>, axis: 'x' | 'y'): AxisRationale | undefined => {
+  const nested = (raw.rationale as Record<string, AxisRationale | undefined> | undefined)?.[axis];
+  const text = optionalText(nested?.text ?? raw[`${axis}_rationale`]);
+  const anchor = optionalText(nested?.anchor ?? raw[`${axis}_anchor`]);
+  return text || anchor ? { text: text ?? '', ...(anchor && { anchor }) } : undefined;
+};
+
+const toHuman = (raw: Record<string, unknown>): HumanJudgment | undefined => {
+  const nested = raw.human as Partial<HumanJudgment> | undefined;
+  const x = optionalNumber(nested?.x ?? raw.human_x);
+  const y = optionalNumber(nested?.y ?? raw.human_y);
+  if (x === undefined || y === undefined) return undefined;
+  return { x, y, updatedAt: optionalNumber(nested?.updatedAt) ?? Date.now() };
+};
+
+const toTags = (value: unknown): string[] | undefined => {
+  const tags = Array.isArray(value)
+    ? [...new Set(value.filter((t): t is string => typeof t === 'string').map(normalizeTag).filter(Boolean))]
+    : typeof value === 'string' ? parseTags(value) : [];
+  return tags.length ? tags : undefined;
+};
+
+// Run history only travels in JSON files; runs without numeric coordinates are dropped
+const toRuns = (value: unknown): AnalysisRun[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const runs = value.flatMap((run: Record<string, unknown>) => {
+    const x = optionalNumber(run?.x);
+    const y = optionalNumber(run?.y);
+    if (x === undefined || y === undefined) return [];
+    return [{
+      x,
+      y,
+      yMin: optionalNumber(run.yMin),
+      yMax: optionalNumber(run.yMax),
+      xMin: optionalNumber(run.xMin),
+      xMax: optionalNumber(run.xMax),
+      z: optionalNumber(run.z),
+      ranAt: optionalNumber(run.ranAt),
+      providerId: optionalText(run.providerId),
+      model: optionalText(run.model),
+      frameworkVersion: optionalNumber(run.frameworkVersion),
+      promptVersion: optionalText(run.promptVersion)
+    }];
+  });
+  return runs.length ? runs : undefined;
+};
+
+const toPoint = (raw: Record<string, unknown>, index: number): MoralPoint => {
+  const x = optionalNumber(raw.x);
+  const y = optionalNumber(raw.y);
+  if (typeof raw.action !== 'string' || typeof raw.intent !== 'string' || x === undefined || y === undefined) {
+    throw new Error(`Row ${index + 1}: action, intent, x and y are required`);
+  }
+  // Any framework id is accepted; files from before user frameworks only knew the two built-ins
+  const mode: AnalysisMode = typeof raw.mode === 'string' && raw.mode.trim() ? raw.mode.trim() : 'seismograph';
+  const version = optionalNumber(raw.frameworkVersion ?? raw.framework_version);
+  const rationale = { x: toRationale(raw, 'x'), y: toRationale(raw, 'y') };
+  const human = toHuman(raw);
+  const reviewer = optionalText(raw.reviewer);
+  const notes = optionalText(raw.notes);
+  const tags = toTags(raw.tags);
+  const runs = toRuns(raw.runs);
+  // Recomputed rather than read, so imported and shared scenarios are screened like fresh ones
+  const warnings = screenScenario(raw.action, raw.intent);
+  return {
+    id: newId(),
+    action: raw.action,
+    intent: raw.intent,
+    x,
+    y,
+    xMin: optionalNumber(raw.xMin ?? raw.x_min),
+    xMax: optionalNumber(raw.xMax ?? raw.x_max),
+    yMin: optionalNumber(raw.yMin ?? raw.y_min),
+    yMax: optionalNumber(raw.yMax ?? raw.y_max),
+    z: optionalNumber(raw.z),
+    label: typeof raw.label === 'string' && raw.label ? raw.label : `Imported ${index + 1}`,
+    mode,
+    frameworkVersion: version !== undefined && Number.isInteger(version) && version > 0 ? version : 1,
+    ...((rationale.x || rationale.y) && { rationale }),
+    ...(human && { human }),
+    ...(reviewer && { reviewer }),
+    ...(notes && { notes }),
+    ...(tags && { tags }),
+    ...(runs && { runs }),
+    ...(warnings.length > 0 && { warnings }),
+    // Group ids are kept here and made fresh per import by withFreshGroupIds, so vectors and trails survive
+    ...(optionalText(raw.pairId) && { pairId: optionalText(raw.pairId) }),
+    ...(optionalText(raw.sweepId) && { sweepId: optionalText(raw.sweepId), sweepStep: optionalNumber(raw.sweepStep) ?? 0 }),
+    ...(optionalText(raw.narrativeId) && {
+      narrativeId: optionalText(raw.narrativeId),
+      narrativeStep: optionalNumber(raw.narrativeStep) ?? 0,
+      narrativeTitle: optionalText(raw.narrativeTitle),
+      agent: optionalText(raw.agent)
+    }),
+    ...(optionalText(raw.modelGroupId) && {
+      modelGroupId: optionalText(raw.modelGroupId),
+      modelStep: optionalNumber(raw.modelStep) ?? 0,
+      modelLabel: optionalText(raw.modelLabel)
+    }),
+    showNoise: raw.showNoise === true
+  };
+};
+
+// Importing the same file twice must not merge its comparisons, sweeps, narratives or lineups with the
+// first copy's, so every distinct group id is swapped for a new one, consistently within the import
+const withFreshGroupIds = (points: MoralPoint[]): MoralPoint[] => {
+  const fresh = new Map<string, string>();
+  const remap = (id: string | undefined) => {
+    if (id === undefined) return undefined;
+    if (!fresh.has(id)) fresh.set(id, newId());
+    return fresh.get(id);
+  };
+  return points.map(p => ({
+    ...p,
+    ...(p.pairId !== undefined && { pairId: remap(p.pairId) }),
+    ...(p.sweepId !== undefined && { sweepId: remap(p.sweepId) }),
+    ...(p.narrativeId !== undefined && { narrativeId: remap(p.narrativeId) }),
+    ...(p.modelGroupId !== undefined && { modelGroupId: remap(p.modelGroupId) })
+  }));
+};
+
+export const parseScenarioFile = (fileName: string, text: string): MoralPoint[] => {
+  if (fileName.toLowerCase().endsWith('.csv')) {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) throw new Error("CSV file is empty");
+    const columns = header.map(h => h.trim());
+    return withFreshGroupIds(rows.map((cells, index) =>
+      toPoint(Object.fromEntries(columns.map((column, i) => [column, cells[i]])), index)
+    ));
+  }
+
+  const parsed = JSON.parse(text);
+  // Accept both the exported envelope and a bare MoralPoint[]
+  return pointsFromRaw(Array.isArray(parsed) ? parsed : parsed?.points);
+};
+
+// Nested MoralPoint-shaped records (JSON files, share links) back into fresh points
+export const pointsFromRaw = (rawPoints: unknown): MoralPoint[] => {
+  if (!Array.isArray(rawPoints)) throw new Error("JSON file does not contain a points array");
+  return withFreshGroupIds(rawPoints.map(toPoint));
+};
+
+// --- Action / Intent Pair Lists (batch input) ---
+export type ScenarioPair = { action: string; intent: string };
+
+// Accepts CSV with an action/intent header, or headerless rows where the first two columns are action, intent
+export const parsePairs = (text: string): ScenarioPair[] => {
+  const rows = parseCsv(text);
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map(h => h.trim().toLowerCase());
+  const hasHeader = header.includes('action') && header.includes('intent');
+  const actionCol = hasHeader ? header.indexOf('action') : 0;
+  const intentCol = hasHeader ? header.indexOf('intent') : 1;
+
+  return (hasHeader ? rows.slice(1) : rows)
+    .map(cells => ({ action: (cells[actionCol] ?? '').trim(), intent: (cells[intentCol] ?? '').trim() }))
+    .filter(pair => pair.action && pair.intent);
+};
+
+// --- Browser Download ---
+export const downloadFile = (fileName: string, content: Blob | string, type = 'text/plain') => {
+  const blob = typeof content === 'string' ? new Blob([content], { type }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
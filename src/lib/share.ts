@@ -0,0 +1,119 @@
+import type { MoralPoint } from './types';
+import { isBuiltIn, parseFramework } from './frameworks';
+import type { MoralFramework } from './frameworks';
+import { pointsFromRaw } from './scenarioFiles';
+
+// --- Share Links ---
+// The scenario set travels in the URL fragment (never sent to a server), deflated and base64url-encoded:
+//   https://host/#share=1.<payload>
+// Opening such a link shows a read-only chart without calling the model.
+
+export const SHARE_PREFIX = '#share=';
+const SHARE_VERSION = 1;
+// Chat tools and some browsers cut longer URLs, which would only surface later as a corrupt link
+export const MAX_SHARE_URL_LENGTH = 8000;
+
+export type SharedChart = {
+  points: MoralPoint[];
+  frameworks: MoralFramework[]; // Custom frameworks the points refer to, so labels and colours match
+};
+
+// What a point keeps in a link: no ids, ensemble samples or review notes
+const sharedPoint = (pt: MoralPoint) => ({
+  action: pt.action,
+  intent: pt.intent,
+  x: pt.x,
+  y: pt.y,
+  xMin: pt.xMin,
+  xMax: pt.xMax,
+  yMin: pt.yMin,
+  yMax: pt.yMax,
+  z: pt.z,
+  label: pt.label,
+  mode: pt.mode,
+  frameworkVersion: pt.frameworkVersion,
+  showNoise: pt.showNoise,
+  rationale: pt.rationale,
+  human: pt.human,
+  tags: pt.tags,
+  pairId: pt.pairId,
+  sweepId: pt.sweepId,
+  sweepStep: pt.sweepStep,
+  narrativeId: pt.narrativeId,
+  narrativeStep: pt.narrativeStep,
+  narrativeTitle: pt.narrativeTitle,
+  agent: pt.agent,
+  modelGroupId: pt.modelGroupId,
+  modelStep: pt.modelStep,
+  modelLabel: pt.modelLabel
+});
+
+// --- Encoding Helpers ---
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const pipeThrough = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(transform)).arrayBuffer());
+
+// --- Public API ---
+export const encodeShareLink = async (points: MoralPoint[], frameworks: MoralFramework[], baseUrl: string): Promise<string> => {
+  const modes = new Set(points.map(p => p.mode));
+  const payload = {
+    points: points.map(sharedPoint),
+    frameworks: frameworks.filter(f => modes.has(f.id) && !isBuiltIn(f.id))
+  };
+  const packed = await pipeThrough(new TextEncoder().encode(JSON.stringify(payload)), new CompressionStream('deflate-raw'));
+  const url = `${baseUrl.split('#')[0]}${SHARE_PREFIX}${SHARE_VERSION}.${toBase64Url(packed)}`;
+
+  if (url.length > MAX_SHARE_URL_LENGTH) {
+    throw new Error(
+      `This chart is too large for a link (${url.length.toLocaleString()} characters, limit ${MAX_SHARE_URL_LENGTH.toLocaleString()}). ` +
+      `Filter it down or export JSON instead.`
+    );
+  }
+  return url;
+};
+
+export const isShareFragment = (hash: string) => hash.startsWith(SHARE_PREFIX);
+
+// Every failure becomes a message that tells the recipient what is wrong with the link
+export const decodeShareFragment = async (hash: string): Promise<SharedChart> => {
+  const body = hash.slice(SHARE_PREFIX.length);
+  const separator = body.indexOf('.');
+  const version = Number(body.slice(0, separator));
+
+  if (separator < 0 || !Number.isInteger(version)) {
+    throw new Error("This share link is corrupt: it has no version marker.");
+  }
+  if (version > SHARE_VERSION) {
+    throw new Error(`This share link was made by a newer version of the analyzer (format ${version}). Please update.`);
+  }
+  if (hash.length > MAX_SHARE_URL_LENGTH) {
+    throw new Error(`This share link is too long (${hash.length.toLocaleString()} characters). Ask the sender for a JSON export instead.`);
+  }
+
+  let text: string;
+  try {
+    text = new TextDecoder().decode(await pipeThrough(fromBase64Url(body.slice(separator + 1)), new DecompressionStream('deflate-raw')));
+  } catch {
+    throw new Error("This share link is corrupt and could not be unpacked. It may have been cut off when it was copied.");
+  }
+
+  try {
+    const parsed = JSON.parse(text);
+    return {
+      points: pointsFromRaw(parsed?.points),
+      frameworks: Array.isArray(parsed?.frameworks) ? parsed.frameworks.map(parseFramework) : []
+    };
+  } catch (err) {
+    throw new Error(`This share link contains invalid data${err instanceof Error ? ` (${err.message})` : ''}.`);
+  }
+};
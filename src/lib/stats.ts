@@ -0,0 +1,86 @@
+import type { MoralPoint } from './types';
+import { QUADRANT_ORDER, quadrantOf } from './frameworks';
+import type { QuadrantKey } from './frameworks';
+import { displayedCoords } from './review';
+
+// --- Scenario Set Statistics ---
+// Aggregates over the plotted points, using the coordinates the chart draws (human overrides win).
+
+export type AxisPair = { x: number; y: number };
+
+export type QuadrantStats = {
+  quadrant: QuadrantKey;
+  count: number;
+  share: number;            // Of all points, 0..1
+  centroid: AxisPair | null; // Null for an empty quadrant
+  spread: AxisPair | null;   // Standard deviation per axis
+};
+
+export type NoiseWidth = {
+  count: number;            // Points that reported an interval on that axis
+  mean: number | null;      // Average width (max - min)
+};
+
+export type ScenarioStats = {
+  total: number;
+  quadrants: QuadrantStats[]; // In QUADRANT_ORDER
+  centroid: AxisPair | null;
+  noise: { x: NoiseWidth; y: NoiseWidth };
+};
+
+export const HISTOGRAM_BINS = 10;
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const stdDev = (values: number[]) => {
+  const m = mean(values);
+  return Math.sqrt(mean(values.map(v => (v - m) ** 2)));
+};
+
+const centroidOf = (coords: AxisPair[]): AxisPair | null =>
+  coords.length ? { x: mean(coords.map(c => c.x)), y: mean(coords.map(c => c.y)) } : null;
+
+const spreadOf = (coords: AxisPair[]): AxisPair | null =>
+  coords.length ? { x: stdDev(coords.map(c => c.x)), y: stdDev(coords.map(c => c.y)) } : null;
+
+const noiseWidth = (points: MoralPoint[], axis: 'x' | 'y'): NoiseWidth => {
+  const widths = points
+    .map(p => axis === 'x' ? [p.xMin, p.xMax] : [p.yMin, p.yMax])
+    .filter((bounds): bounds is [number, number] => bounds[0] !== undefined && bounds[1] !== undefined)
+    .map(([min, max]) => max - min);
+  return { count: widths.length, mean: widths.length ? mean(widths) : null };
+};
+
+export const scenarioStats = (points: MoralPoint[]): ScenarioStats => {
+  const coords = points.map(displayedCoords);
+  return {
+    total: points.length,
+    quadrants: QUADRANT_ORDER.map(quadrant => {
+      const inQuadrant = coords.filter(c => quadrantOf(c.x, c.y) === quadrant);
+      return {
+        quadrant,
+        count: inQuadrant.length,
+        share: coords.length ? inQuadrant.length / coords.length : 0,
+        centroid: centroidOf(inQuadrant),
+        spread: spreadOf(inQuadrant)
+      };
+    }),
+    centroid: centroidOf(coords),
+    noise: { x: noiseWidth(points, 'x'), y: noiseWidth(points, 'y') }
+  };
+};
+
+// Counts per equal-width bin over [-1, 1]; 1.0 falls into the last bin
+export const histogram = (values: number[], bins = HISTOGRAM_BINS): number[] => {
+  const counts = new Array<number>(bins).fill(0);
+  values.forEach(v => {
+    const index = Math.min(bins - 1, Math.max(0, Math.floor(((v + 1) / 2) * bins)));
+    counts[index] += 1;
+  });
+  return counts;
+};
+
+export const marginalHistograms = (points: MoralPoint[], bins = HISTOGRAM_BINS): { x: number[]; y: number[] } => {
+  const coords = points.map(displayedCoords);
+  return { x: histogram(coords.map(c => c.x), bins), y: histogram(coords.map(c => c.y), bins) };
+};
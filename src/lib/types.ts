@@ -0,0 +1,108 @@
+import type { EnsembleStats } from './ensemble';
+import type { InputWarning } from './guardrails';
+
+// --- Shared Types ---
+
+// The model's own explanation for one axis: a short rationale and the rubric anchor it chose
+export type AxisRationale = {
+  text: string;
+  anchor?: string;
+};
+
+export type PointRationale = {
+  x?: AxisRationale;
+  y?: AxisRationale;
+};
+
+// Id of the framework that scored a point: 'seismograph', 'philosopher' or a user-defined one
+export type AnalysisMode = string;
+
+// A reviewer's own placement of a point; the model's x / y stay on the record next to it
+export type HumanJudgment = {
+  x: number;
+  y: number;
+  updatedAt: number;
+};
+
+// One model answer for a scenario. Fields other than the coordinates are missing only on the
+// seed run of points plotted before run history existed.
+export type AnalysisRun = {
+  x: number;
+  y: number;
+  yMin?: number;
+  yMax?: number;
+  xMin?: number;
+  xMax?: number;
+  z?: number;
+  ranAt?: number;
+  providerId?: string;
+  model?: string;
+  frameworkVersion?: number;
+  promptVersion?: string; // Fingerprint of the framework's prompt template
+};
+
+export type MoralPoint = {
+  id: string;
+  action: string;
+  intent: string;
+  x: number;
+  y: number;
+  // Noise / Confidence Intervals
+  yMin?: number;
+  yMax?: number;
+  xMin?: number;
+  xMax?: number;
+  label: string;
+  mode: AnalysisMode;
+  frameworkVersion: number; // Version of the framework definition that produced the point
+  showNoise: boolean; // Per-scenario toggle
+  z?: number; // Consequence magnitude, 0 (trivial) to 1 (catastrophic)
+  ensemble?: EnsembleStats; // Present when the point was sampled N times
+  rationale?: PointRationale;
+  pairId?: string; // Shared by the two points of one framework comparison run
+  sweepId?: string; // Shared by the points of one intent sweep
+  sweepStep?: number; // Position in the sweep's intent ladder (0 = first)
+  narrativeId?: string; // Shared by the pairs extracted from one story
+  narrativeStep?: number; // Position of the act in the story (0 = first)
+  narrativeTitle?: string; // Opening of the story, the group heading
+  agent?: string; // Who acts, as named in the story
+  modelGroupId?: string; // Shared by the answers of one multi-model comparison
+  modelStep?: number; // Position of the model in the lineup (0 = first)
+  modelLabel?: string; // Provider and model that produced this answer; picks the marker shape
+  human?: HumanJudgment; // Set when a reviewer overrode the model's placement
+  reviewer?: string;
+  notes?: string;
+  tags?: string[]; // Free-form, normalized by parseTags
+  runs?: AnalysisRun[]; // Every analysis of this scenario, oldest first; the point shows the latest
+  warnings?: InputWarning[]; // Input screening findings (possible injection, swapped fields, ...)
+};
+
+// The coordinate payload every provider must return
+export type AnalysisResult = {
+  x: number;
+  y: number;
+  yMin?: number;
+  yMax?: number;
+  xMin?: number;
+  xMax?: number;
+  z?: number;
+  rationale?: PointRationale;
+  repairs?: string[]; // Set when validation had to fix the model output
+  warnings?: InputWarning[]; // Set when the input screening flagged the scenario
+  servedBy?: { providerId: string; model: string }; // Backend that answered, reported by the team proxy
+};
+
+// Y (action) values cached per `${mode}:${action}` so repeated actions stay consistent
+export type YCacheEntry = {
+  y: number;
+  yMin?: number;
+  yMax?: number;
+  xMin?: number;
+  xMax?: number;
+  yRationale?: AxisRationale; // Travels with the cached Y so the explanation matches the value
+  action?: string; // Original wording, for the cache inspector
+  pinned?: boolean; // Survives "Clear" and framework edits
+  updatedAt?: number;
+};
+
+export type YCache = Record<string, YCacheEntry>;
@@ -0,0 +1,77 @@
+import type { MoralPoint } from './types';
+import type { EnsembleSample } from './ensemble';
+
+// --- Uncertainty Rendering ---
+// Model intervals are often skewed (y = -0.3 in [-0.8, 0.2]), so the noise is drawn around the point
+// itself: each side reaches exactly to its own bound instead of centring a box on the interval midpoints.
+
+export type NoiseStyle = 'contour' | 'bars';
+
+// Distance from the point to each bound, in score units; an axis without an interval has zero reach
+export type NoiseReach = { left: number; right: number; up: number; down: number };
+
+export const noiseReach = (pt: MoralPoint): NoiseReach | null => {
+  if (pt.xMin === undefined && pt.xMax === undefined && pt.yMin === undefined && pt.yMax === undefined) return null;
+  return {
+    left: Math.max(0, pt.x - (pt.xMin ?? pt.x)),
+    right: Math.max(0, (pt.xMax ?? pt.x) - pt.x),
+    up: Math.max(0, (pt.yMax ?? pt.y) - pt.y),
+    down: Math.max(0, pt.y - (pt.yMin ?? pt.y))
+  };
+};
+
+export const hasNoise = (pt: MoralPoint) => noiseReach(pt) !== null;
+
+// What the chart layer draws: a scenario's reach around the position its dot is shown at
+export type NoiseMark = { id: string; x: number; y: number; reach: NoiseReach; color: string };
+
+// Four quarter-ellipses joined at the axis points, one per side pair, in screen coordinates (y down).
+// The joins are smooth because every quarter meets the next with the same (horizontal or vertical) tangent.
+export const skewedContourPath = (cx: number, cy: number, { left, right, up, down }: NoiseReach) => [
+  `M${cx + right},${cy}`,
+  `A${right},${up} 0 0 0 ${cx},${cy - up}`,
+  `A${left},${up} 0 0 0 ${cx - left},${cy}`,
+  `A${left},${down} 0 0 0 ${cx},${cy + down}`,
+  `A${right},${down} 0 0 0 ${cx + right},${cy}`,
+  'Z'
+].join(' ');
+
+// --- Sample Density ---
+export const DENSITY_CELL = 0.04; // Grid step in score units (50 × 50 over the chart)
+const MIN_BANDWIDTH = 0.04;
+const MIN_DENSITY = 0.05; // Share of the peak below which a cell is left empty
+
+export type DensityCell = { x: number; y: number; density: number }; // Lower-left corner; density relative to the peak
+export type DensityMark = { id: string; cells: DensityCell[]; color: string };
+
+const sd = (values: number[]) => {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+};
+
+// Gaussian kernel density of one scenario's ensemble samples, bandwidth per axis by Scott's rule
+export const sampleDensity = (samples: Pick<EnsembleSample, 'x' | 'y'>[]): DensityCell[] => {
+  if (samples.length < 2) return [];
+  const factor = 1.06 * Math.pow(samples.length, -1 / 5);
+  const hx = Math.max(MIN_BANDWIDTH, factor * sd(samples.map(s => s.x)));
+  const hy = Math.max(MIN_BANDWIDTH, factor * sd(samples.map(s => s.y)));
+
+  const steps = Math.round(2 / DENSITY_CELL);
+  const cells: DensityCell[] = [];
+  for (let i = 0; i < steps; i++) {
+    for (let j = 0; j < steps; j++) {
+      const x = -1 + i * DENSITY_CELL;
+      const y = -1 + j * DENSITY_CELL;
+      const density = samples.reduce((sum, s) => {
+        const dx = (x + DENSITY_CELL / 2 - s.x) / hx;
+        const dy = (y + DENSITY_CELL / 2 - s.y) / hy;
+        return sum + Math.exp(-(dx * dx + dy * dy) / 2);
+      }, 0);
+      cells.push({ x, y, density });
+    }
+  }
+  const peak = Math.max(...cells.map(c => c.density));
+  return cells
+    .map(c => ({ ...c, density: c.density / peak }))
+    .filter(c => c.density >= MIN_DENSITY);
+};
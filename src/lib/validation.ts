@@ -0,0 +1,106 @@
+import type { AnalysisResult, AxisRationale } from './types';
+import { AnalysisError } from './errors';
+
+// --- Model Output Validation ---
+
+// 'repair' clamps and reorders what it can; 'reject' fails the analysis on any violation
+export type ValidationPolicy = 'repair' | 'reject';
+
+// The JSON object a provider returned, before any checks (snake_case, as the prompts request)
+export type RawAnalysis = Record<string, unknown>;
+
+const AXIS_MIN = -1;
+const AXIS_MAX = 1;
+
+const readNumber = (raw: RawAnalysis, field: string): number | undefined => {
+  const value = raw[field];
+  // Number('') is 0, so a blank string would silently score the centre of the axis
+  if (value === undefined || value === null || (typeof value === 'string' && !value.trim())) return undefined;
+  const num = typeof value === 'string' ? Number(value) : value;
+  if (typeof num !== 'number' || !Number.isFinite(num)) {
+    throw new AnalysisError('invalid-result', `Model returned a non-numeric '${field}' (${JSON.stringify(value)}).`);
+  }
+  return num;
+};
+
+const MAX_RATIONALE_LENGTH = 300;
+
+// Explanations are optional extras: anything that is not a non-empty string is dropped, never rejected
+const readText = (raw: RawAnalysis, field: string): string | undefined => {
+  const value = raw[field];
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, MAX_RATIONALE_LENGTH) : undefined;
+};
+
+const readRationale = (raw: RawAnalysis, axis: 'x' | 'y'): AxisRationale | undefined => {
+  const text = readText(raw, `${axis}_rationale`);
+  const anchor = readText(raw, `${axis}_anchor`);
+  return text || anchor ? { text: text ?? '', ...(anchor && { anchor }) } : undefined;
+};
+
+export const validateResult = (raw: RawAnalysis, policy: ValidationPolicy): AnalysisResult => {
+  const repairs: string[] = [];
+
+  const violation = (message: string) => {
+    if (policy === 'reject') throw new AnalysisError('invalid-result', `Model output rejected: ${message}.`);
+    repairs.push(message);
+  };
+
+  const inRange = (field: string, value: number | undefined) => {
+    if (value === undefined || (value >= AXIS_MIN && value <= AXIS_MAX)) return value;
+    violation(`'${field}' = ${value} is outside [-1, 1]`);
+    return Math.max(AXIS_MIN, Math.min(AXIS_MAX, value));
+  };
+
+  // Core coordinates cannot be invented, so they are required under either policy
+  const rawX = readNumber(raw, 'x');
+  const rawY = readNumber(raw, 'y');
+  if (rawX === undefined || rawY === undefined) {
+    const missing = [rawX === undefined && "'x'", rawY === undefined && "'y'"].filter(Boolean).join(' and ');
+    throw new AnalysisError('invalid-result', `Model output is missing ${missing}.`);
+  }
+
+  const x = inRange('x', rawX)!;
+  const y = inRange('y', rawY)!;
+
+  const interval = (axis: 'x' | 'y', value: number) => {
+    let min = inRange(`${axis}_min`, readNumber(raw, `${axis}_min`));
+    let max = inRange(`${axis}_max`, readNumber(raw, `${axis}_max`));
+    if (min === undefined || max === undefined) return { min, max };
+
+    if (min > max) {
+      violation(`${axis}_min (${min}) is greater than ${axis}_max (${max})`);
+      [min, max] = [max, min];
+    }
+    if (value < min || value > max) {
+      violation(`${axis} (${value}) lies outside its own interval [${min}, ${max}]`);
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+    return { min, max };
+  };
+
+  // Magnitude is an optional extra on [0, 1]; older prompts and custom backends may not send it
+  const rawZ = readNumber(raw, 'z');
+  let z = rawZ;
+  if (rawZ !== undefined && (rawZ < 0 || rawZ > 1)) {
+    violation(`'z' = ${rawZ} is outside [0, 1]`);
+    z = Math.max(0, Math.min(1, rawZ));
+  }
+
+  const xInterval = interval('x', x);
+  const yInterval = interval('y', y);
+  const xRationale = readRationale(raw, 'x');
+  const yRationale = readRationale(raw, 'y');
+
+  return {
+    x,
+    y,
+    xMin: xInterval.min,
+    xMax: xInterval.max,
+    yMin: yInterval.min,
+    yMax: yInterval.max,
+    ...(z !== undefined && { z }),
+    ...((xRationale || yRationale) && { rationale: { x: xRationale, y: yRationale } }),
+    ...(repairs.length > 0 && { repairs })
+  };
+};
@@ -0,0 +1,158 @@
+import type { MoralPoint, YCache } from './types';
+import { newId } from './ids';
+import { rekeyCache } from './cache';
+
+// --- Workspace Types ---
+export type Workspace = {
+  id: string;
+  name: string;
+  points: MoralPoint[];
+  yCache: YCache;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type WorkspaceStore = {
+  schemaVersion: number;
+  activeId: string;
+  workspaces: Workspace[];
+};
+
+// Bump this whenever the persisted shape of MoralPoint / Workspace changes and add a migration below.
+export const SCHEMA_VERSION = 3;
+
+const STORAGE_KEY = 'moral-analyzer:workspaces';
+
+// --- Seed Data ---
+// Only used for the very first workspace; afterwards the stored data wins.
+const seedPoints = (): MoralPoint[] => [
+  {
+    id: '1',
+    action: 'I abort my child',
+    intent: 'My life was in danger',
+    x: 0.95, // High purity (Saving life)
+    y: -0.3, // Heavy moral weight but not absolute evil (Abortion signal)
+    yMin: -0.8, // Wide disagreement/noise
+    yMax: 0.2,
+    xMin: 0.85, // Narrow agreement on self-preservation
+    xMax: 1.0,
+    label: "Abortion for the life of the mother",
+    mode: 'seismograph',
+    frameworkVersion: 1,
+    showNoise: true // Noise enabled by default
+  }
+];
+
+// Pre-seeded with the initial scenario to ensure consistency
+const seedCache = (): YCache => ({
+  'seismograph:i abort my child': {
+    action: 'I abort my child',
+    y: -0.3,
+    yMin: -0.8,
+    yMax: 0.2,
+    xMin: 0.85,
+    xMax: 1.0
+  }
+});
+
+// --- Factories ---
+export const createWorkspace = (name: string, points: MoralPoint[] = [], yCache: YCache = {}): Workspace => {
+  const now = Date.now();
+  return { id: newId(), name, points, yCache, createdAt: now, updatedAt: now };
+};
+
+export const duplicateWorkspace = (source: Workspace, name: string): Workspace =>
+  createWorkspace(name, source.points.map(p => ({ ...p })), { ...source.yCache });
+
+const initialStore = (): WorkspaceStore => {
+  const workspace = createWorkspace('Default', seedPoints(), seedCache());
+  return { schemaVersion: SCHEMA_VERSION, activeId: workspace.id, workspaces: [workspace] };
+};
+
+// --- Migrations ---
+// Loose view of whatever was found in storage, covering every historical shape.
+type RawStore = {
+  schemaVersion?: number;
+  activeId?: string;
+  workspaces?: Workspace[];
+  points?: MoralPoint[];
+  yCache?: YCache;
+};
+
+// Each entry upgrades a store from version N to N + 1.
+const MIGRATIONS: Record<number, (store: RawStore) => RawStore> = {
+  // v0 -> v1: the unversioned format was a single { points, yCache } pair
+  0: (legacy) => {
+    const workspace = createWorkspace('Default', legacy.points ?? [], legacy.yCache ?? {});
+    return { schemaVersion: 1, activeId: workspace.id, workspaces: [workspace] };
+  },
+  // v1 -> v2: points record the framework version; everything before user frameworks was v1
+  1: (store) => ({
+    ...store,
+    schemaVersion: 2,
+    workspaces: (store.workspaces ?? []).map(ws => ({
+      ...ws,
+      points: ws.points.map(p => ({ ...p, frameworkVersion: p.frameworkVersion ?? 1 }))
+    }))
+  }),
+  // v2 -> v3: cache keys also ignore punctuation and repeated whitespace
+  2: (store) => ({
+    ...store,
+    schemaVersion: 3,
+    workspaces: (store.workspaces ?? []).map(ws => ({ ...ws, yCache: rekeyCache(ws.yCache ?? {}) }))
+  }),
+};
+
+export const migrateStore = (raw: RawStore): WorkspaceStore => {
+  let store = raw;
+  let version = store.schemaVersion ?? 0;
+
+  if (version > SCHEMA_VERSION) {
+    throw new Error(`Workspace data is from a newer version (v${version})`);
+  }
+  while (version < SCHEMA_VERSION) {
+    store = MIGRATIONS[version](store);
+    version = store.schemaVersion ?? version + 1;
+  }
+
+  if (!Array.isArray(store.workspaces) || store.workspaces.length === 0) {
+    throw new Error("Workspace data is empty");
+  }
+  const activeId = store.workspaces.some(w => w.id === store.activeId) ? store.activeId! : store.workspaces[0].id;
+  return { schemaVersion: SCHEMA_VERSION, activeId, workspaces: store.workspaces };
+};
+
+// --- Persistence ---
+export const loadWorkspaceStore = (): WorkspaceStore => {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  try {
+    if (raw) return migrateStore(JSON.parse(raw));
+  } catch (err) {
+    // Keep the unreadable data around instead of silently overwriting it
+    console.error(err);
+    localStorage.setItem(`${STORAGE_KEY}:backup`, raw!);
+  }
+  return initialStore();
+};
+
+export const saveWorkspaceStore = (store: WorkspaceStore) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (err) {
+    // Quota exceeded or storage disabled: keep working in memory
+    console.error(err);
+  }
+};
+
+// --- Store Helpers ---
+export const getActiveWorkspace = (store: WorkspaceStore): Workspace =>
+  store.workspaces.find(w => w.id === store.activeId) ?? store.workspaces[0];
+
+// Targets a workspace by id, not the active one: async work commits where it started.
+// A workspace deleted in the meantime is left out silently.
+export const updateWorkspace = (store: WorkspaceStore, id: string, update: (workspace: Workspace) => Workspace): WorkspaceStore => ({
+  ...store,
+  workspaces: store.workspaces.map(w =>
+    w.id === id ? { ...update(w), updatedAt: Date.now() } : w
+  )
+});
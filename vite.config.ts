@@ -4,4 +4,8 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // `npm run start:server` listens here; set VITE_ANALYZER_PROXY_URL=/api/analyze to use it in dev
+  server: {
+    proxy: { '/api': 'http://localhost:8787' },
+  },
 })